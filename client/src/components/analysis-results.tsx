@@ -1,34 +1,77 @@
+import { useState } from "react";
 import { useMutation } from "@tanstack/react-query";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Search, CheckCircle, XCircle, AlertTriangle, Settings } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import SectorHealthMap from "@/components/sector-health-map";
+import VariantSelector from "@/components/variant-selector";
+import BlockChecksumList from "@/components/block-checksum-list";
+import EepromValidationPanel, { defaultRepairSelection, type RepairSelection } from "@/components/eeprom-validation-panel";
+import type { ConversionSummary } from "@/components/conversion-process";
 import type { FrmAnalysis } from "@shared/schema";
+import { isRepairable } from "@shared/frm/engine";
+import { formatDistance } from "@shared/frm/units";
+import type { RepairAction, RepairRequest } from "@shared/frm/eeprom-validation";
+import { useDisplayUnits } from "@/hooks/use-display-units";
+
+const METRIC_STYLES: Record<string, string> = {
+  readable: 'bg-green-50 border-green-200 text-green-800',
+  partial: 'bg-orange-50 border-orange-200 text-orange-800',
+  corrupted: 'bg-red-50 border-red-200 text-red-800',
+  method: 'bg-blue-50 border-blue-200 text-blue-800',
+};
 
 interface AnalysisResultsProps {
   analysis: FrmAnalysis;
   repairId: string;
   onConversionStatusChange: (status: 'idle' | 'converting' | 'completed' | 'failed') => void;
+  onAnalysisChange: (analysis: FrmAnalysis) => void;
+  onConversionResult: (summary: ConversionSummary) => void;
 }
 
-export default function AnalysisResults({ analysis, repairId, onConversionStatusChange }: AnalysisResultsProps) {
+export default function AnalysisResults({ analysis, repairId, onConversionStatusChange, onAnalysisChange, onConversionResult }: AnalysisResultsProps) {
   const { toast } = useToast();
+  const [mileageConfirmed, setMileageConfirmed] = useState(false);
+  const [displayUnit] = useDisplayUnits();
+  const [repairSelection, setRepairSelection] = useState<RepairSelection>(() =>
+    analysis.eepromValidation ? defaultRepairSelection(analysis.eepromValidation) : {}
+  );
+  const odometerConflict = analysis.odometer?.status === 'conflict';
+  // An EEPROM image matching several variants is only converted once one is chosen
+  const variantUnresolved = analysis.eepromValidation !== undefined &&
+    analysis.variantDetection?.ambiguous === true && !analysis.variantDetection.override;
 
   const convertMutation = useMutation({
     mutationFn: async () => {
-      const response = await apiRequest('POST', `/api/frm/${repairId}/convert`);
+      // Block repairs only exist for uploaded EEPROM images; only blocks the
+      // current validation still offers a repair for are sent
+      const validation = analysis.eepromValidation;
+      const repairs: RepairRequest[] | undefined = validation
+        ? Object.entries(repairSelection)
+          .filter(([blockId, action]) => action !== 'none'
+            && validation.checks.some(check => check.blockId === blockId && check.repairs?.includes(action)))
+          .map(([blockId, action]) => ({ blockId, action: action as RepairAction }))
+        : undefined;
+      const response = await apiRequest('POST', `/api/frm/${repairId}/convert`, { confirmMileage: mileageConfirmed, repairs });
       return await response.json();
     },
     onMutate: () => {
       onConversionStatusChange('converting');
     },
-    onSuccess: () => {
+    onSuccess: (data: Partial<ConversionSummary>) => {
       toast({
         title: "Conversion completed",
         description: "EEPROM file is ready for download",
       });
+      onConversionResult({
+        codingChanges: data.codingChanges ?? [],
+        blockChecksums: data.blockChecksums ?? [],
+        repairChanges: data.repairChanges ?? [],
+      });
       onConversionStatusChange('completed');
     },
     onError: (error: any) => {
@@ -41,15 +84,6 @@ export default function AnalysisResults({ analysis, repairId, onConversionStatus
     },
   });
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'corrupted': return 'red';
-      case 'readable': return 'green';
-      case 'partial': return 'orange';
-      default: return 'blue';
-    }
-  };
-
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'corrupted': return <XCircle className="text-red-600 w-5 h-5" />;
@@ -59,9 +93,46 @@ export default function AnalysisResults({ analysis, repairId, onConversionStatus
     }
   };
 
-  const eepromStatus = analysis.corruptionLevel < 50 ? 'corrupted' : 'readable';
-  const dflashStatus = analysis.recoverableSectors > 20 ? 'readable' : 'partial';
-  const integrityStatus = analysis.corruptionLevel > 70 ? 'readable' : 'partial';
+  const getMetricStatus = (value: number | null) => {
+    if (value === null) return 'method';
+    if (value >= 0.9) return 'readable';
+    return value >= 0.5 ? 'partial' : 'corrupted';
+  };
+
+  const formatRatio = (value: number | null) => value === null ? "n/a" : `${Math.round(value * 100)}%`;
+
+  const { integrity } = analysis;
+  const isEeprom = analysis.classification?.kind === 'eeprom';
+  const repairable = isRepairable(integrity);
+
+  const metrics = [
+    {
+      id: 'recoverable-data',
+      title: 'Recoverable Data',
+      value: integrity.recoverableDataRatio,
+      description: 'of checksum blocks hold data after replay',
+    },
+    {
+      id: 'structure',
+      title: 'Structural Validity',
+      value: integrity.structuralValidity,
+      description: isEeprom
+        ? 'EEPROM input has no EEE sector structure'
+        : `of EEE sectors well-formed (${analysis.recoverableSectors}/${analysis.totalSectors} fully replayable)`,
+    },
+    {
+      id: 'record-checks',
+      title: 'Record Checks',
+      value: integrity.recordPassRate,
+      description: isEeprom ? 'EEPROM input has no EEE records' : 'of EEE records pass their check nibble',
+    },
+    {
+      id: 'extraction',
+      title: 'Field Extraction',
+      value: integrity.extractionConfidence,
+      description: 'of layout fields decode to plausible values',
+    },
+  ];
 
   return (
     <Card className="p-6" data-testid="card-analysis-results">
@@ -79,57 +150,90 @@ export default function AnalysisResults({ analysis, repairId, onConversionStatus
         <Progress value={100} className="w-full" />
       </div>
 
-      {/* Analysis Results Grid */}
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
-        <div className={`bg-red-50 border border-red-200 rounded-lg p-4`} data-testid="status-eeprom">
-          <div className="flex items-center justify-between mb-2">
-            <h4 className="font-medium text-red-800">EEPROM Status</h4>
-            {getStatusIcon('corrupted')}
-          </div>
-          <p className="text-sm text-red-700">Corrupted - Cannot read vehicle data</p>
-          <div className="mt-2 text-xs font-mono text-red-600">Error: 0x4A2F</div>
-        </div>
+      {/* Integrity Metrics Grid */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        {metrics.map((metric) => {
+          const status = getMetricStatus(metric.value);
+          return (
+            <div key={metric.id} className={`border rounded-lg p-4 ${METRIC_STYLES[status]}`} data-testid={`status-${metric.id}`}>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="font-medium">{metric.title}</h4>
+                {getStatusIcon(status)}
+              </div>
+              <div className="text-2xl font-bold font-mono">{formatRatio(metric.value)}</div>
+              <p className="text-sm mt-1 opacity-80">{metric.description}</p>
+            </div>
+          );
+        })}
+      </div>
 
-        <div className={`bg-green-50 border border-green-200 rounded-lg p-4`} data-testid="status-dflash">
-          <div className="flex items-center justify-between mb-2">
-            <h4 className="font-medium text-green-800">D-Flash Status</h4>
-            {getStatusIcon('readable')}
-          </div>
-          <p className="text-sm text-green-700">
-            Readable - Configuration data found
-          </p>
-          <div className="mt-2 text-xs font-mono text-green-600">32KB Valid</div>
-        </div>
+      <div className="flex items-center space-x-2 mb-6 text-sm text-gray-600" data-testid="status-recovery">
+        {getStatusIcon('method')}
+        <span>
+          Recovery method: {isEeprom ? "EEPROM validation" : "D-Flash to EEPROM conversion"}
+        </span>
+      </div>
 
-        <div className={`bg-orange-50 border border-orange-200 rounded-lg p-4`} data-testid="status-integrity">
-          <div className="flex items-center justify-between mb-2">
-            <h4 className="font-medium text-orange-800">Data Integrity</h4>
-            {getStatusIcon('partial')}
-          </div>
-          <p className="text-sm text-orange-700">
-            {analysis.corruptionLevel}% recoverable sectors
-          </p>
-          <div className="mt-2 text-xs font-mono text-orange-600">
-            {analysis.recoverableSectors}/{analysis.totalSectors} sectors
-          </div>
+      {analysis.warnings && analysis.warnings.length > 0 && (
+        <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg space-y-2" data-testid="panel-warnings">
+          {analysis.warnings.map((warning, index) => (
+            <div key={`${warning.code}-${index}`} className="flex items-start space-x-2 text-sm text-yellow-800">
+              <AlertTriangle className="text-yellow-600 w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>{warning.message}</span>
+            </div>
+          ))}
         </div>
+      )}
 
-        <div className={`bg-blue-50 border border-blue-200 rounded-lg p-4`} data-testid="status-recovery">
-          <div className="flex items-center justify-between mb-2">
-            <h4 className="font-medium text-blue-800">Recovery Method</h4>
-            {getStatusIcon('method')}
+      {analysis.variantDetection && (
+        <VariantSelector
+          repairId={repairId}
+          detection={analysis.variantDetection}
+          onAnalysisChange={onAnalysisChange}
+        />
+      )}
+
+      {analysis.sectorHealth && <SectorHealthMap sectors={analysis.sectorHealth} />}
+
+      {analysis.eepromValidation ? (
+        <EepromValidationPanel
+          validation={analysis.eepromValidation}
+          selection={repairSelection}
+          onSelectionChange={setRepairSelection}
+        />
+      ) : (
+        analysis.blockChecksums && <BlockChecksumList blocks={analysis.blockChecksums} />
+      )}
+
+      {repairable && odometerConflict && (
+        <div className="mb-4 p-4 bg-yellow-50 border border-yellow-200 rounded-lg" data-testid="panel-odometer-conflict">
+          <div className="text-sm text-yellow-800 mb-2">
+            <strong>Odometer records conflict.</strong> Readings by write counter:
+          </div>
+          <div className="grid grid-cols-2 gap-1 font-mono text-xs text-yellow-900 mb-3">
+            {analysis.odometer!.records.map((record) => (
+              <div key={record.slot}>
+                Slot {record.slot} #{record.counter}: {formatDistance(record.mileage, analysis.mileageUnit?.unit ?? 'km', displayUnit)}{record.valid ? "" : " (check failed)"}
+              </div>
+            ))}
           </div>
-          <p className="text-sm text-blue-700">D-Flash to EEPROM conversion</p>
-          <div className="mt-2 text-xs font-mono text-blue-600">Algorithm v2.1</div>
+          <label className="flex items-center space-x-2 text-sm text-yellow-800">
+            <Checkbox
+              checked={mileageConfirmed}
+              onCheckedChange={(checked) => setMileageConfirmed(checked === true)}
+              data-testid="checkbox-confirm-mileage"
+            />
+            <span>I have checked the mileage against the instrument cluster</span>
+          </label>
         </div>
-      </div>
+      )}
 
       {/* Convert Button */}
-      {analysis.corruptionLevel > 50 && (
+      {repairable && (
         <div className="flex justify-center">
           <Button
             onClick={() => convertMutation.mutate()}
-            disabled={convertMutation.isPending}
+            disabled={convertMutation.isPending || (odometerConflict && !mileageConfirmed) || variantUnresolved}
             className="bg-blue-600 hover:bg-blue-700 px-8"
             data-testid="button-start-conversion"
           >
@@ -145,12 +249,13 @@ export default function AnalysisResults({ analysis, repairId, onConversionStatus
         </div>
       )}
 
-      {analysis.corruptionLevel <= 50 && (
+      {!repairable && (
         <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg">
           <div className="flex items-center space-x-2">
             <XCircle className="text-red-600 w-5 h-5" />
             <div className="text-sm text-red-800">
-              <strong>Repair Not Possible:</strong> D-Flash corruption level too high ({analysis.corruptionLevel}% corrupted). 
+              <strong>Repair Not Possible:</strong> {formatRatio(integrity.recoverableDataRatio)} of the data is recoverable
+              and {formatRatio(integrity.recordPassRate)} of records pass their checks. 
               Physical repair or replacement required.
             </div>
           </div>
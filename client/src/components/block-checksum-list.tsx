@@ -0,0 +1,55 @@
+import { Badge } from "@/components/ui/badge";
+import { formatOffset } from "@shared/frm/layouts";
+import {
+  CHECKSUM_STATUS_LABELS,
+  formatChecksum,
+  type BlockChecksumResult,
+  type BlockChecksumStatus,
+} from "@shared/frm/checksums";
+
+interface BlockChecksumListProps {
+  blocks: BlockChecksumResult[];
+  title?: string;
+}
+
+const STATUS_STYLES: Record<BlockChecksumStatus, string> = {
+  valid: 'bg-green-100 text-green-800',
+  invalid: 'bg-red-100 text-red-800',
+  erased: 'bg-gray-100 text-gray-600',
+  unchecked: 'bg-blue-50 text-blue-800',
+};
+
+const ALGORITHM_LABELS: Record<NonNullable<BlockChecksumResult['algorithm']>, string> = {
+  'crc16-ccitt': 'CRC16',
+  'sum8': 'Sum8',
+};
+
+export default function BlockChecksumList({ blocks, title = "Block Checksums" }: BlockChecksumListProps) {
+  return (
+    <div className="mb-6" data-testid="list-block-checksums">
+      <div className="text-sm font-medium text-slate-800 mb-2">{title}</div>
+      <div className="space-y-1">
+        {blocks.map((block) => (
+          <div key={block.id} className="flex items-center justify-between text-xs" data-testid={`checksum-block-${block.id}`}>
+            <span className="text-gray-600">
+              {block.label}{" "}
+              <span className="font-mono text-gray-400">{formatOffset(block.start)}-{formatOffset(block.end - 1)}</span>
+            </span>
+            <span className="flex items-center space-x-2">
+              {block.algorithm && block.stored !== undefined && block.computed !== undefined && (
+                <span className="font-mono text-gray-500">
+                  {ALGORITHM_LABELS[block.algorithm]} {formatChecksum(block.stored, block.algorithm)}
+                  {block.stored !== block.computed && ` ≠ ${formatChecksum(block.computed, block.algorithm)}`}
+                  {block.markerValid === false && " (copy marker)"}
+                </span>
+              )}
+              <Badge variant="outline" className={STATUS_STYLES[block.status]}>
+                {CHECKSUM_STATUS_LABELS[block.status]}
+              </Badge>
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { CodingCategory } from "@shared/frm/layouts";
+import {
+  CODING_CATEGORY_LABELS,
+  isAllowedCodingValue,
+  type CodingOverrides,
+  type CodingParameter,
+} from "@shared/frm/coding";
+
+interface CodingEditorProps {
+  repairId: string;
+  coding: CodingParameter[];
+  overrides: CodingOverrides;
+  onSaved: (overrides: CodingOverrides) => void;
+  onCancel: () => void;
+}
+
+// Number inputs keep the raw text so a half-typed value can be shown as invalid
+type DraftValue = boolean | number | string;
+
+export default function CodingEditor({ repairId, coding, overrides, onSaved, onCancel }: CodingEditorProps) {
+  const [draft, setDraft] = useState<Record<string, DraftValue>>(() =>
+    Object.fromEntries(coding.map(parameter => [parameter.id, overrides[parameter.id] ?? parameter.value]))
+  );
+  const { toast } = useToast();
+
+  const parseDraft = (parameter: CodingParameter): boolean | number | undefined => {
+    const value = draft[parameter.id];
+    if (parameter.type !== 'number') return value as boolean | number;
+    return typeof value === 'number' ? value : String(value).trim() === '' ? undefined : Number(value);
+  };
+
+  const invalid = coding.filter(parameter => !isAllowedCodingValue(parameter, parseDraft(parameter)));
+
+  // Only values that differ from what the module holds become overrides
+  const collectOverrides = (): CodingOverrides => {
+    const result: CodingOverrides = {};
+    for (const parameter of coding) {
+      const value = parseDraft(parameter);
+      if (value !== undefined && value !== parameter.value) {
+        result[parameter.id] = value;
+      }
+    }
+    return result;
+  };
+
+  const saveMutation = useMutation<{ overrides: CodingOverrides }, Error, CodingOverrides>({
+    mutationFn: async (next) => {
+      const response = await apiRequest('PUT', `/api/frm/${repairId}/coding`, { overrides: next });
+      return await response.json();
+    },
+    onSuccess: (data) => {
+      const count = Object.keys(data.overrides).length;
+      toast({
+        title: "Coding saved",
+        description: count > 0 ? `${count} parameter(s) will be changed in the EEPROM` : "Coding reset to the values read from the module",
+      });
+      onSaved(data.overrides);
+    },
+    onError: (error) => {
+      toast({
+        title: "Coding not saved",
+        description: error.message || "Failed to save coding overrides",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const renderControl = (parameter: CodingParameter) => {
+    const value = draft[parameter.id];
+    const setValue = (next: DraftValue) => setDraft(current => ({ ...current, [parameter.id]: next }));
+
+    switch (parameter.type) {
+      case 'boolean':
+        return (
+          <Switch
+            checked={value === true}
+            onCheckedChange={(checked) => setValue(checked)}
+            data-testid={`switch-coding-${parameter.id}`}
+          />
+        );
+      case 'enum':
+        return (
+          <Select value={String(value)} onValueChange={(next) => setValue(Number(next))}>
+            <SelectTrigger className="h-8 w-48 text-xs" data-testid={`select-coding-${parameter.id}`}>
+              <SelectValue placeholder={`Unknown (${value})`} />
+            </SelectTrigger>
+            <SelectContent>
+              {parameter.options?.map((option) => (
+                <SelectItem key={option.value} value={String(option.value)}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'number':
+        return (
+          <div className="flex items-center space-x-1">
+            <Input
+              type="number"
+              value={String(value)}
+              min={parameter.range?.min}
+              max={parameter.range?.max}
+              onChange={(event) => setValue(event.target.value)}
+              className="h-8 w-20 text-xs"
+              data-testid={`input-coding-${parameter.id}`}
+            />
+            {parameter.unit && <span className="text-xs text-gray-500">{parameter.unit}</span>}
+          </div>
+        );
+    }
+  };
+
+  const categories = (Object.keys(CODING_CATEGORY_LABELS) as CodingCategory[])
+    .filter(category => coding.some(parameter => parameter.category === category));
+
+  return (
+    <div className="space-y-4" data-testid="panel-coding-editor">
+      {categories.map((category) => (
+        <div key={category}>
+          <div className="text-xs font-medium uppercase tracking-wide text-gray-500 mb-1">
+            {CODING_CATEGORY_LABELS[category]}
+          </div>
+          {coding.filter(parameter => parameter.category === category).map((parameter) => {
+            const isInvalid = invalid.includes(parameter);
+            return (
+              <div key={parameter.id} className="py-2 border-b border-gray-100">
+                <div className="flex items-center justify-between">
+                  <span className={`text-sm ${isInvalid ? "text-red-600" : "text-gray-600"}`}>{parameter.label}</span>
+                  {renderControl(parameter)}
+                </div>
+                {isInvalid && parameter.range && (
+                  <div className="text-xs text-red-600 mt-1">
+                    Allowed {parameter.range.min}-{parameter.range.max}{parameter.unit ? ` ${parameter.unit}` : ""}
+                  </div>
+                )}
+                {isInvalid && parameter.options && (
+                  <div className="text-xs text-red-600 mt-1">Choose one of the listed options</div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ))}
+
+      <div className="flex justify-end space-x-2">
+        <Button variant="outline" onClick={onCancel} disabled={saveMutation.isPending} data-testid="button-cancel-coding">
+          Cancel
+        </Button>
+        <Button
+          onClick={() => saveMutation.mutate(collectOverrides())}
+          disabled={saveMutation.isPending || invalid.length > 0}
+          className="bg-blue-600 hover:bg-blue-700"
+          data-testid="button-save-coding"
+        >
+          {saveMutation.isPending ? "Saving..." : "Save Coding"}
+        </Button>
+      </div>
+    </div>
+  );
+}
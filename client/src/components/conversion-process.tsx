@@ -2,15 +2,23 @@ import { useState, useEffect } from "react";
 import { useMutation } from "@tanstack/react-query";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { CheckCircle, Download, RotateCcw } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CheckCircle, Download, FileText, RotateCcw } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import type { FrmAnalysis } from "@shared/schema";
+import { EXPORT_FORMATS, type ExportFormat } from "@shared/frm/file-formats";
+import type { CodingChange } from "@shared/frm/coding";
+import type { BlockChecksumResult } from "@shared/frm/checksums";
+import { formatRepairLog, REPAIR_ACTION_LABELS, type RepairChange } from "@shared/frm/eeprom-validation";
+import BlockChecksumList from "@/components/block-checksum-list";
+import { FileUtils } from "@/lib/file-utils";
 
 interface ConversionProcessProps {
   repairId: string;
   analysis: FrmAnalysis;
   status: 'idle' | 'converting' | 'completed' | 'failed';
+  summary?: ConversionSummary;
   onComplete: () => void;
 }
 
@@ -22,7 +30,17 @@ interface ConversionStep {
   duration?: string;
 }
 
-export default function ConversionProcess({ repairId, analysis, status, onComplete }: ConversionProcessProps) {
+// What the convert endpoint reports besides the image itself
+export interface ConversionSummary {
+  codingChanges: CodingChange[];
+  blockChecksums: BlockChecksumResult[];
+  repairChanges: RepairChange[];
+}
+
+const EMPTY_SUMMARY: ConversionSummary = { codingChanges: [], blockChecksums: [], repairChanges: [] };
+
+export default function ConversionProcess({ repairId, analysis, status, summary = EMPTY_SUMMARY, onComplete }: ConversionProcessProps) {
+  const { codingChanges, blockChecksums, repairChanges } = summary;
   const [steps, setSteps] = useState<ConversionStep[]>([
     {
       id: 'validate',
@@ -50,11 +68,14 @@ export default function ConversionProcess({ repairId, analysis, status, onComple
     },
   ]);
 
+  const [downloadFormat, setDownloadFormat] = useState<ExportFormat>('bin');
+  const downloadFilename = `frm_eeprom_repaired_${repairId.slice(-8)}${EXPORT_FORMATS[downloadFormat].extension}`;
+
   const { toast } = useToast();
 
   const downloadMutation = useMutation({
     mutationFn: async () => {
-      const response = await fetch(`/api/frm/${repairId}/download`);
+      const response = await fetch(`/api/frm/${repairId}/download?format=${downloadFormat}`);
       if (!response.ok) {
         const error = await response.json();
         throw new Error(error.error || 'Download failed');
@@ -65,7 +86,7 @@ export default function ConversionProcess({ repairId, analysis, status, onComple
       const a = document.createElement('a');
       a.style.display = 'none';
       a.href = url;
-      a.download = `frm_eeprom_repaired_${repairId.slice(-8)}.bin`;
+      a.download = downloadFilename;
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
@@ -220,19 +241,84 @@ export default function ConversionProcess({ repairId, analysis, status, onComple
             <div>
               <h4 className="font-medium text-blue-800">Repaired EEPROM Ready</h4>
               <p className="text-sm text-gray-600">
-                frm_eeprom_repaired_{repairId.slice(-8)}.bin (4,096 bytes)
+                {downloadFilename} (4,096-byte EEPROM)
               </p>
+              <p className="text-xs text-gray-500">
+                {EXPORT_FORMATS[downloadFormat].description}
+              </p>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Select value={downloadFormat} onValueChange={(value) => setDownloadFormat(value as ExportFormat)}>
+                <SelectTrigger className="w-56 bg-white" data-testid="select-download-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(EXPORT_FORMATS).map((format) => (
+                    <SelectItem key={format.id} value={format.id} data-testid={`option-format-${format.id}`}>
+                      {format.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={() => downloadMutation.mutate()}
+                disabled={downloadMutation.isPending}
+                className="bg-blue-600 hover:bg-blue-700 flex items-center"
+                data-testid="button-download-eeprom"
+              >
+                <Download className="mr-2 w-4 h-4" />
+                {downloadMutation.isPending ? "Downloading..." : "Download"}
+              </Button>
             </div>
-            <Button
-              onClick={() => downloadMutation.mutate()}
-              disabled={downloadMutation.isPending}
-              className="bg-blue-600 hover:bg-blue-700 flex items-center"
-              data-testid="button-download-eeprom"
-            >
-              <Download className="mr-2 w-4 h-4" />
-              {downloadMutation.isPending ? "Downloading..." : "Download"}
-            </Button>
           </div>
+
+          {codingChanges.length > 0 && (
+            <div className="mt-3 pt-3 border-t border-blue-200" data-testid="list-coding-changes">
+              <div className="text-sm font-medium text-blue-800 mb-1">Coding changes applied</div>
+              <div className="space-y-1 text-xs">
+                {codingChanges.map((change) => (
+                  <div key={change.id} className="flex items-center justify-between" data-testid={`coding-change-${change.id}`}>
+                    <span className="text-gray-600">{change.label}</span>
+                    <span className="font-mono">
+                      <span className="text-red-600 line-through mr-2">{change.before ?? "unprogrammed"}</span>
+                      <span className="text-green-700">{change.after}</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {repairChanges.length > 0 && (
+            <div className="mt-3 pt-3 border-t border-blue-200" data-testid="list-repair-changes">
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-sm font-medium text-blue-800">Block repairs applied</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => FileUtils.downloadTextFile(formatRepairLog(repairChanges), `frm_eeprom_repaired_${repairId.slice(-8)}_changes.txt`)}
+                  data-testid="button-download-change-log"
+                >
+                  <FileText className="mr-2 w-4 h-4" />
+                  Save change log
+                </Button>
+              </div>
+              <div className="space-y-1 text-xs">
+                {repairChanges.map((change) => (
+                  <div key={change.blockId} data-testid={`repair-change-${change.blockId}`}>
+                    <span className="text-gray-800">{change.label}:</span>{" "}
+                    <span className="text-gray-600">{REPAIR_ACTION_LABELS[change.action]}. {change.detail}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {blockChecksums.length > 0 && (
+            <div className="mt-3 pt-3 border-t border-blue-200">
+              <BlockChecksumList blocks={blockChecksums} title="Block checksums in the repaired EEPROM" />
+            </div>
+          )}
         </div>
       )}
 
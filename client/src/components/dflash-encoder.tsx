@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, CheckCircle, Download, HardDrive, XCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { FrmAnalysis } from "@shared/schema";
+import type { RoundTripCheck } from "@shared/frm/engine";
+import { EXPORT_FORMATS, type ExportFormat } from "@shared/frm/file-formats";
+import { FRM_LAYOUTS, type FrmVariant } from "@shared/frm/layouts";
+import { isFrmVariant } from "@shared/frm/variant-detection";
+
+interface DFlashEncoderProps {
+  repairId: string;
+  analysis: FrmAnalysis;
+}
+
+interface EncodeResponse {
+  success: boolean;
+  variant: FrmVariant;
+  dflashSize: number;
+  selfCheck: RoundTripCheck;
+}
+
+export default function DFlashEncoder({ repairId, analysis }: DFlashEncoderProps) {
+  const detectedVariant = analysis.vehicleData.frmType;
+  const [variant, setVariant] = useState<FrmVariant>(
+    isFrmVariant(detectedVariant) ? detectedVariant : 'FRM3 XEQ384'
+  );
+  const [downloadFormat, setDownloadFormat] = useState<ExportFormat>('bin');
+  const downloadFilename = `frm_dflash_${repairId.slice(-8)}${EXPORT_FORMATS[downloadFormat].extension}`;
+
+  const { toast } = useToast();
+
+  const encodeMutation = useMutation<EncodeResponse, Error>({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/frm/${repairId}/encode`, { variant });
+      return await response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "D-Flash encoded",
+        description: `${FRM_LAYOUTS[data.variant].label} image passed the round-trip check`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Encoding failed",
+        description: error.message || "Failed to encode EEPROM into D-Flash",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const downloadMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/frm/${repairId}/encoded?format=${downloadFormat}`);
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Download failed');
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.style.display = 'none';
+      a.href = url;
+      a.download = downloadFilename;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Download started",
+        description: "D-Flash file downloaded successfully",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Download failed",
+        description: error.message || "Failed to download D-Flash file",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const selfCheck = encodeMutation.data?.selfCheck;
+  const encodedVariant = encodeMutation.data?.variant;
+
+  return (
+    <Card className="p-6" data-testid="card-dflash-encoder">
+      <h2 className="text-xl font-semibold text-slate-900 mb-2 flex items-center">
+        <HardDrive className="text-blue-600 mr-3 w-5 h-5" />
+        Rebuild D-Flash
+      </h2>
+      <p className="text-sm text-gray-600 mb-6">
+        Encode the EEPROM back into a 32KB EEE D-Flash image for modules whose D-Flash was wiped.
+      </p>
+
+      <div className="flex items-center space-x-2 mb-6">
+        <Select value={variant} onValueChange={(value) => setVariant(value as FrmVariant)}>
+          <SelectTrigger className="w-64 bg-white" data-testid="select-encode-variant">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.values(FRM_LAYOUTS).map((layout) => (
+              <SelectItem key={layout.variant} value={layout.variant} data-testid={`option-variant-${layout.variant}`}>
+                {layout.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          onClick={() => encodeMutation.mutate()}
+          disabled={encodeMutation.isPending}
+          className="bg-blue-600 hover:bg-blue-700"
+          data-testid="button-encode-dflash"
+        >
+          {encodeMutation.isPending ? "Encoding..." : "Encode D-Flash"}
+        </Button>
+      </div>
+
+      {selfCheck && encodedVariant && (
+        <div className="space-y-4">
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg" data-testid="section-self-check">
+            <div className="flex items-center space-x-2 mb-2">
+              <CheckCircle className="text-green-600 w-5 h-5" />
+              <h4 className="font-medium text-green-800">Round-trip check passed</h4>
+            </div>
+            <p className="text-sm text-green-700">
+              {selfCheck.validRecords} EEE records replay to the original EEPROM with {selfCheck.mismatchedWords} differing words
+            </p>
+            {selfCheck.detectedType !== encodedVariant && (
+              <div className="mt-2 flex items-center space-x-2 text-xs text-orange-700">
+                <AlertTriangle className="w-4 h-4" />
+                <span>The forward converter identifies this image as {selfCheck.detectedType}</span>
+              </div>
+            )}
+          </div>
+
+          <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg" data-testid="section-download-dflash">
+            <div className="flex items-center justify-between">
+              <div>
+                <h4 className="font-medium text-blue-800">Rebuilt D-Flash Ready</h4>
+                <p className="text-sm text-gray-600">
+                  {downloadFilename} ({encodeMutation.data!.dflashSize.toLocaleString()}-byte D-Flash)
+                </p>
+                <p className="text-xs text-gray-500">
+                  {EXPORT_FORMATS[downloadFormat].description}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Select value={downloadFormat} onValueChange={(value) => setDownloadFormat(value as ExportFormat)}>
+                  <SelectTrigger className="w-56 bg-white" data-testid="select-dflash-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.values(EXPORT_FORMATS).map((format) => (
+                      <SelectItem key={format.id} value={format.id}>
+                        {format.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  onClick={() => downloadMutation.mutate()}
+                  disabled={downloadMutation.isPending}
+                  className="bg-blue-600 hover:bg-blue-700 flex items-center"
+                  data-testid="button-download-dflash"
+                >
+                  <Download className="mr-2 w-4 h-4" />
+                  {downloadMutation.isPending ? "Downloading..." : "Download"}
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {encodeMutation.isError && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <div className="flex items-center space-x-2">
+            <XCircle className="text-red-600 w-5 h-5" />
+            <div className="text-sm text-red-800">
+              <strong>Encoding Failed:</strong> {encodeMutation.error.message}
+            </div>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
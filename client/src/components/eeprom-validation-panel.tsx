@@ -0,0 +1,88 @@
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CheckCircle, XCircle, AlertTriangle } from "lucide-react";
+import {
+  REPAIR_ACTION_LABELS,
+  type EepromValidation,
+  type RepairAction,
+  type ValidationStatus,
+} from "@shared/frm/eeprom-validation";
+
+// Per block: the repair to apply, or 'none' to leave the block as read
+export type RepairSelection = Record<string, RepairAction | 'none'>;
+
+interface EepromValidationPanelProps {
+  validation: EepromValidation;
+  selection: RepairSelection;
+  onSelectionChange: (selection: RepairSelection) => void;
+}
+
+/**
+ * Recommended repair for every check that offers one
+ */
+export function defaultRepairSelection(validation: EepromValidation): RepairSelection {
+  return Object.fromEntries(
+    validation.checks
+      .filter(check => check.blockId && check.repairs && check.repairs.length > 0)
+      .map(check => [check.blockId!, check.repairs![0]])
+  );
+}
+
+const getStatusIcon = (status: ValidationStatus) => {
+  switch (status) {
+    case 'pass': return <CheckCircle className="text-green-600 w-4 h-4 mt-0.5 flex-shrink-0" />;
+    case 'warn': return <AlertTriangle className="text-orange-600 w-4 h-4 mt-0.5 flex-shrink-0" />;
+    case 'fail': return <XCircle className="text-red-600 w-4 h-4 mt-0.5 flex-shrink-0" />;
+  }
+};
+
+export default function EepromValidationPanel({ validation, selection, onSelectionChange }: EepromValidationPanelProps) {
+  const failed = validation.checks.filter(check => check.status === 'fail').length;
+
+  return (
+    <div className="mb-6 p-4 border border-gray-200 rounded-lg" data-testid="panel-eeprom-validation">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-sm font-medium text-slate-800">EEPROM Validation</span>
+        <Badge
+          variant="outline"
+          className={validation.passed ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"}
+          data-testid="badge-eeprom-validation"
+        >
+          {validation.passed ? "All checks passed" : `${failed} check(s) failed`}
+        </Badge>
+      </div>
+
+      <div className="space-y-2">
+        {validation.checks.map((check) => (
+          <div key={check.id} className="flex items-start justify-between space-x-2 text-sm" data-testid={`validation-check-${check.id}`}>
+            <div className="flex items-start space-x-2">
+              {getStatusIcon(check.status)}
+              <div>
+                <div className="text-slate-800">{check.label}</div>
+                <div className="text-xs text-gray-600">{check.detail}</div>
+              </div>
+            </div>
+            {check.blockId && check.repairs && check.repairs.length > 0 && (
+              <Select
+                value={selection[check.blockId] ?? 'none'}
+                onValueChange={(value) => onSelectionChange({ ...selection, [check.blockId!]: value as RepairAction | 'none' })}
+              >
+                <SelectTrigger className="h-8 w-56 text-xs" data-testid={`select-repair-${check.blockId}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {check.repairs.map((action) => (
+                    <SelectItem key={action} value={action}>
+                      {REPAIR_ACTION_LABELS[action]}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value="none">Leave as read</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
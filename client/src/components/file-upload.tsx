@@ -5,8 +5,36 @@ import { Button } from "@/components/ui/button";
 import { Upload, FileText, CheckCircle, XCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { FileUtils } from "@/lib/file-utils";
+import { decodeDump, DUMP_FILE_EXTENSIONS, DUMP_FORMAT_LABELS } from "@shared/frm/file-formats";
+import { formatHexErrors } from "@shared/frm/intel-hex";
+import { BYTE_TRANSFORM_LABELS } from "@shared/frm/normalize";
+import type { FirmwareReport } from "@shared/frm/firmware";
+import { formatPartNumber } from "@shared/frm/identification";
+import type { InputClassification } from "@shared/frm/input-classifier";
 import type { FrmAnalysis } from "@shared/schema";
 
+const IMAGE_KIND_LABELS: Record<string, string> = {
+  'full-chip': "Sliced from full-chip image",
+  'pflash-dflash': "Sliced from P-Flash + D-Flash image",
+  'dflash-pflash': "Sliced from D-Flash + P-Flash image",
+  'unknown': "Located by EEE signature",
+};
+
+const INPUT_KIND_LABELS: Record<InputClassification['kind'], string> = {
+  dflash: "Valid D-Flash",
+  eeprom: "EEPROM image",
+  pflash: "P-Flash image",
+  unknown: "Unrecognised",
+};
+
+interface UploadResponse {
+  repairId: string | null;
+  analysis: FrmAnalysis | null;
+  classification: InputClassification;
+  firmware?: FirmwareReport;
+}
+
 interface FileUploadProps {
   onFileUploaded: (repairId: string, analysis: FrmAnalysis) => void;
 }
@@ -17,7 +45,7 @@ export default function FileUpload({ onFileUploaded }: FileUploadProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
-  const uploadMutation = useMutation({
+  const uploadMutation = useMutation<UploadResponse, Error, File>({
     mutationFn: async (file: File) => {
       const formData = new FormData();
       formData.append('file', file);
@@ -26,9 +54,16 @@ export default function FileUpload({ onFileUploaded }: FileUploadProps) {
       return await response.json();
     },
     onSuccess: (data) => {
+      if (!data.repairId || !data.analysis) {
+        toast({
+          title: "P-Flash image detected",
+          description: "This is program flash, not a D-Flash dump. See the firmware report below.",
+        });
+        return;
+      }
       toast({
         title: "File uploaded successfully",
-        description: "D-Flash analysis completed",
+        description: data.classification.kind === 'eeprom' ? "EEPROM validation completed" : "D-Flash analysis completed",
       });
       onFileUploaded(data.repairId, data.analysis);
     },
@@ -68,32 +103,44 @@ export default function FileUpload({ onFileUploaded }: FileUploadProps) {
     }
   };
 
-  const handleFile = (file: File) => {
+  const handleFile = async (file: File) => {
     // Validate file type
-    const validExtensions = ['.bin', '.hex', '.eep'];
-    const hasValidExtension = validExtensions.some(ext => 
+    const hasValidExtension = DUMP_FILE_EXTENSIONS.some(ext => 
       file.name.toLowerCase().endsWith(ext)
     );
     
     if (!hasValidExtension) {
       toast({
         title: "Invalid file type",
-        description: "Only .bin, .hex, and .eep files are supported",
+        description: `Only ${DUMP_FILE_EXTENSIONS.join(', ')} files are supported`,
         variant: "destructive",
       });
       return;
     }
     
-    // Validate file size (should be around 32KB)
-    if (file.size > 64 * 1024) {
+    // Validate file size (32KB D-Flash up to full-chip images as HEX/S-record text)
+    if (file.size > 2 * 1024 * 1024) {
       toast({
         title: "File too large",
-        description: "Maximum file size is 64KB",
+        description: "Maximum file size is 2MB",
         variant: "destructive",
       });
       return;
     }
     
+    // Check Intel HEX / S-record checksums before uploading
+    if (FileUtils.isTextContainer(file.name)) {
+      const decoded = decodeDump(new Uint8Array(await file.arrayBuffer()));
+      if (decoded.errors.length > 0) {
+        toast({
+          title: `Invalid ${DUMP_FORMAT_LABELS[decoded.format]} file`,
+          description: formatHexErrors(decoded.errors, 3),
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+    
     setUploadedFile(file);
     uploadMutation.mutate(file);
   };
@@ -128,7 +175,7 @@ export default function FileUpload({ onFileUploaded }: FileUploadProps) {
         <input
           ref={fileInputRef}
           type="file"
-          accept=".bin,.hex,.eep"
+          accept={DUMP_FILE_EXTENSIONS.join(',')}
           onChange={handleChange}
           className="hidden"
           data-testid="input-file-hidden"
@@ -147,12 +194,12 @@ export default function FileUpload({ onFileUploaded }: FileUploadProps) {
         <h3 className="text-lg font-medium text-slate-800 mb-2">
           {uploadMutation.isPending 
             ? "Processing file..." 
-            : "Drop D-Flash file here or click to browse"
+            : "Drop FRM dump here or click to browse"
           }
         </h3>
         
         <p className="text-gray-600 mb-4">
-          Supports .bin, .hex files (32KB expected)
+          32KB D-Flash, full-chip dump or 4KB EEPROM image (.eep or .bin)
         </p>
         
         {!uploadedFile && (
@@ -166,7 +213,7 @@ export default function FileUpload({ onFileUploaded }: FileUploadProps) {
         )}
         
         <div className="mt-4 text-xs text-gray-500">
-          Maximum file size: 64KB • Accepted formats: .bin, .hex, .eep
+          Maximum file size: 2MB • Accepted formats: {DUMP_FILE_EXTENSIONS.join(', ')}
         </div>
       </div>
 
@@ -213,7 +260,7 @@ export default function FileUpload({ onFileUploaded }: FileUploadProps) {
                 ) : uploadMutation.isSuccess ? (
                   <>
                     <CheckCircle className="inline w-4 h-4 mr-1" />
-                    Valid D-Flash
+                    {INPUT_KIND_LABELS[uploadMutation.data.classification.kind]}
                   </>
                 ) : uploadMutation.isPending ? (
                   "Processing..."
@@ -222,7 +269,95 @@ export default function FileUpload({ onFileUploaded }: FileUploadProps) {
                 )}
               </span>
             </div>
+            {uploadMutation.data?.analysis?.source && !['dflash', 'eeprom'].includes(uploadMutation.data.analysis.source.imageKind) && (
+              <div className="col-span-2" data-testid="text-dflash-slice">
+                <span className="text-gray-600">D-Flash:</span>
+                <span className="font-mono ml-2">
+                  {IMAGE_KIND_LABELS[uploadMutation.data.analysis.source.imageKind] ?? "Chip image"}
+                  {uploadMutation.data.analysis.source.mcu && ` (${uploadMutation.data.analysis.source.mcu})`}
+                  {` @ 0x${uploadMutation.data.analysis.source.dflashOffset.toString(16).toUpperCase()}`}
+                </span>
+              </div>
+            )}
+            {uploadMutation.data?.analysis?.normalization && uploadMutation.data.analysis.normalization.transform !== 'identity' && (
+              <div className="col-span-2" data-testid="text-byte-order">
+                <span className="text-gray-600">Byte order:</span>
+                <span className="font-mono ml-2">
+                  {BYTE_TRANSFORM_LABELS[uploadMutation.data.analysis.normalization.transform]} (corrected)
+                </span>
+              </div>
+            )}
           </div>
+
+          {uploadMutation.data?.firmware && (
+            <div className="mt-4 border-t border-gray-200 pt-4 text-sm" data-testid="panel-firmware-report">
+              <h5 className="font-medium text-slate-800 mb-2">Firmware Identification</h5>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <span className="text-gray-600">MCU:</span>
+                  <span className="font-mono ml-2">{uploadMutation.data.firmware.mcu ?? "Unknown"}</span>
+                </div>
+                <div>
+                  <span className="text-gray-600">Reset vector:</span>
+                  <span className="font-mono ml-2">
+                    {uploadMutation.data.firmware.resetVector !== undefined
+                      ? `0x${uploadMutation.data.firmware.resetVector.toString(16).toUpperCase()}`
+                      : "Not found"}
+                  </span>
+                </div>
+                <div>
+                  <span className="text-gray-600">Used:</span>
+                  <span className="font-mono ml-2">
+                    {uploadMutation.data.firmware.usedBytes.toLocaleString()} / {uploadMutation.data.firmware.size.toLocaleString()} bytes
+                  </span>
+                </div>
+                <div>
+                  <span className="text-gray-600">Code density:</span>
+                  <span className="font-mono ml-2">{(uploadMutation.data.firmware.codeDensity * 100).toFixed(1)}%</span>
+                </div>
+                {uploadMutation.data.firmware.identification && (
+                  <>
+                    <div data-testid="text-firmware-part-number">
+                      <span className="text-gray-600">Part number:</span>
+                      <span className="font-mono ml-2">{formatPartNumber(uploadMutation.data.firmware.identification.partNumber)}</span>
+                    </div>
+                    <div>
+                      <span className="text-gray-600">Generation:</span>
+                      <span className="font-mono ml-2">{uploadMutation.data.firmware.identification.generation ?? "Unknown"}</span>
+                    </div>
+                    <div>
+                      <span className="text-gray-600">HW / SW:</span>
+                      <span className="font-mono ml-2">
+                        {uploadMutation.data.firmware.identification.hardwareVersion} / {uploadMutation.data.firmware.identification.softwareVersion}
+                      </span>
+                    </div>
+                    <div>
+                      <span className="text-gray-600">Supplier:</span>
+                      <span className="ml-2">{uploadMutation.data.firmware.identification.supplier ?? "Unknown"}</span>
+                    </div>
+                  </>
+                )}
+              </div>
+              {uploadMutation.data.firmware.strings.length > 0 && (
+                <div className="mt-2 font-mono text-xs text-gray-600 space-y-1">
+                  {uploadMutation.data.firmware.strings.map((text, index) => (
+                    <div key={index}>{text}</div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {uploadMutation.data && (
+            <div className="mt-4 border-t border-gray-200 pt-4 text-xs text-gray-600" data-testid="panel-classification">
+              <div className="font-medium text-slate-800 mb-1">
+                Detected as {INPUT_KIND_LABELS[uploadMutation.data.classification.kind]} ({Math.round(uploadMutation.data.classification.confidence * 100)}% confidence)
+              </div>
+              {uploadMutation.data.classification.evidence.map((item, index) => (
+                <div key={index}>• {item.detail}</div>
+              ))}
+            </div>
+          )}
         </div>
       )}
     </Card>
@@ -0,0 +1,84 @@
+import { useEffect, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { formatOffset, type MemoryRegion } from "@shared/frm/layouts";
+import type { FieldSource } from "@shared/frm/engine";
+
+interface HexViewProps {
+  repairId: string;
+  region: MemoryRegion;
+  highlights: FieldSource[];
+}
+
+const BYTES_PER_ROW = 16;
+
+function toPrintable(byte: number): string {
+  return byte >= 0x20 && byte <= 0x7E ? String.fromCharCode(byte) : ".";
+}
+
+export default function HexView({ repairId, region, highlights }: HexViewProps) {
+  const targetRef = useRef<HTMLDivElement>(null);
+
+  const { data, isLoading, error } = useQuery<Uint8Array, Error>({
+    queryKey: ['/api/frm', repairId, 'region', region],
+    queryFn: async () => {
+      const response = await fetch(`/api/frm/${repairId}/region/${region}`);
+      if (!response.ok) {
+        const body = await response.json();
+        throw new Error(body.error || 'Failed to load memory region');
+      }
+      return new Uint8Array(await response.arrayBuffer());
+    },
+  });
+
+  const firstRow = highlights.length > 0
+    ? Math.floor(Math.min(...highlights.map(source => source.offset)) / BYTES_PER_ROW)
+    : 0;
+
+  useEffect(() => {
+    targetRef.current?.scrollIntoView({ block: 'center' });
+  }, [data, firstRow]);
+
+  const isHighlighted = (offset: number) =>
+    highlights.some(source => offset >= source.offset && offset < source.offset + source.length);
+
+  if (isLoading) {
+    return <div className="text-sm text-gray-500 py-4 text-center">Loading {region.toUpperCase()}...</div>;
+  }
+  if (error || !data) {
+    return <div className="text-sm text-red-600 py-4 text-center">{error?.message || "Region not available"}</div>;
+  }
+
+  const rows = Math.ceil(data.length / BYTES_PER_ROW);
+
+  return (
+    <div className="max-h-96 overflow-y-auto border border-gray-200 rounded bg-slate-50 p-2 font-mono text-xs" data-testid={`hex-view-${region}`}>
+      {Array.from({ length: rows }, (_, row) => {
+        const rowOffset = row * BYTES_PER_ROW;
+        const bytes = Array.from(data.subarray(rowOffset, rowOffset + BYTES_PER_ROW));
+
+        return (
+          <div key={row} ref={row === firstRow ? targetRef : undefined} className="flex space-x-3 leading-5">
+            <span className="text-gray-400">{formatOffset(rowOffset)}</span>
+            <span className="flex space-x-1">
+              {bytes.map((byte, index) => (
+                <span
+                  key={index}
+                  className={isHighlighted(rowOffset + index) ? "bg-yellow-200 text-slate-900" : "text-slate-700"}
+                >
+                  {byte.toString(16).toUpperCase().padStart(2, '0')}
+                </span>
+              ))}
+            </span>
+            <span className="text-gray-500 whitespace-pre">
+              {bytes.map((byte, index) => (
+                <span key={index} className={isHighlighted(rowOffset + index) ? "bg-yellow-200 text-slate-900" : undefined}>
+                  {toPrintable(byte)}
+                </span>
+              ))}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
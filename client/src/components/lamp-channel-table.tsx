@@ -0,0 +1,94 @@
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, Lightbulb } from "lucide-react";
+import { FileUtils } from "@/lib/file-utils";
+import { formatOffset } from "@shared/frm/layouts";
+import { LOAD_TYPE_LABELS, lampChannelsToCsv, type LampChannel, type LampLoadType } from "@shared/frm/lamp-channels";
+
+interface LampChannelTableProps {
+  channels: LampChannel[];
+  vin?: string;
+}
+
+const LOAD_TYPE_COLORS: Record<LampLoadType, string> = {
+  unused: 'bg-gray-100 text-gray-600',
+  halogen: 'bg-amber-100 text-amber-800',
+  led: 'bg-blue-100 text-blue-800',
+  xenon: 'bg-violet-100 text-violet-800',
+  unknown: 'bg-red-100 text-red-800',
+};
+
+export default function LampChannelTable({ channels, vin }: LampChannelTableProps) {
+  const issueCount = channels.filter(channel => channel.issues.length > 0).length;
+
+  const handleExport = () => {
+    FileUtils.downloadTextFile(lampChannelsToCsv(channels), `lamp_channels_${vin ?? 'frm'}.csv`, 'text/csv');
+  };
+
+  return (
+    <Card className="p-6" data-testid="card-lamp-channels">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-slate-900 flex items-center">
+          <Lightbulb className="text-blue-600 mr-3 w-5 h-5" />
+          Lamp Outputs
+        </h2>
+        <Button variant="outline" size="sm" onClick={handleExport} disabled={channels.length === 0} data-testid="button-export-lamp-csv">
+          <Download className="w-4 h-4 mr-2" />
+          Export CSV
+        </Button>
+      </div>
+
+      {channels.length === 0 ? (
+        <div className="text-sm text-gray-500">The output table is not programmed in this dump.</div>
+      ) : (
+        <>
+          <div className="text-xs text-gray-600 mb-3" data-testid="text-lamp-issue-count">
+            {issueCount > 0
+              ? `${issueCount} of ${channels.length} outputs have a load configuration that does not suit the fitted lamp`
+              : `All ${channels.length} outputs are configured consistently`}
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Pin</TableHead>
+                <TableHead>Function</TableHead>
+                <TableHead>Load</TableHead>
+                <TableHead className="text-right">PWM</TableHead>
+                <TableHead>Cold check</TableHead>
+                <TableHead>Hot check</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {channels.map((channel) => (
+                <TableRow
+                  key={channel.channel}
+                  className={channel.issues.length > 0 ? "bg-red-50" : undefined}
+                  title={`Entry @ ${formatOffset(channel.offset)}`}
+                  data-testid={`row-lamp-channel-${channel.channel}`}
+                >
+                  <TableCell className="font-mono text-xs">{channel.pin}</TableCell>
+                  <TableCell className="text-sm">
+                    {channel.function}
+                    {channel.issues.map((issue, index) => (
+                      <div key={index} className="text-xs text-red-600">{issue}</div>
+                    ))}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={LOAD_TYPE_COLORS[channel.loadType]}>
+                      {channel.loadType === 'unknown' ? `Unknown (${channel.loadCode})` : LOAD_TYPE_LABELS[channel.loadType]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right font-mono text-xs">{channel.pwmDuty}%</TableCell>
+                  <TableCell className="text-xs">{channel.coldMonitoring ? "On" : "Off"}</TableCell>
+                  <TableCell className="text-xs">{channel.hotMonitoring ? "On" : "Off"}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </>
+      )}
+    </Card>
+  );
+}
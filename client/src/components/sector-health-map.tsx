@@ -0,0 +1,71 @@
+import { useState } from "react";
+import { formatOffset } from "@shared/frm/layouts";
+import { SECTOR_STATUS_LABELS, type SectorHealth, type SectorStatus } from "@shared/frm/sector-health";
+
+interface SectorHealthMapProps {
+  sectors: SectorHealth[];
+}
+
+const STATUS_COLORS: Record<SectorStatus, string> = {
+  'healthy': 'bg-green-500 border-green-600',
+  'degraded': 'bg-orange-400 border-orange-500',
+  'corrupted': 'bg-red-500 border-red-600',
+  'empty': 'bg-gray-200 border-gray-300',
+  'user-data': 'bg-blue-400 border-blue-500',
+};
+
+export default function SectorHealthMap({ sectors }: SectorHealthMapProps) {
+  const [selected, setSelected] = useState<number | null>(null);
+  const selectedSector = sectors.find(sector => sector.index === selected);
+
+  return (
+    <div className="mb-6" data-testid="map-sector-health">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-medium text-slate-800">D-Flash Sector Map</span>
+        <span className="text-xs text-gray-500">1KB per cell</span>
+      </div>
+
+      <div className="grid grid-cols-8 gap-1">
+        {sectors.map((sector) => (
+          <button
+            key={sector.index}
+            type="button"
+            onClick={() => setSelected(sector.index === selected ? null : sector.index)}
+            className={`h-8 rounded border text-[10px] font-mono text-white ${STATUS_COLORS[sector.status]} ${
+              sector.index === selected ? 'ring-2 ring-offset-1 ring-slate-800' : ''
+            }`}
+            title={`Sector ${sector.index} @ ${formatOffset(sector.offset)}: ${SECTOR_STATUS_LABELS[sector.status]}`}
+            data-testid={`cell-sector-${sector.index}`}
+          >
+            {sector.index}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-3 mt-2 text-xs text-gray-600">
+        {(Object.keys(SECTOR_STATUS_LABELS) as SectorStatus[]).map((status) => (
+          <div key={status} className="flex items-center space-x-1">
+            <span className={`inline-block w-3 h-3 rounded border ${STATUS_COLORS[status]}`} />
+            <span>{SECTOR_STATUS_LABELS[status]}</span>
+          </div>
+        ))}
+      </div>
+
+      {selectedSector && (
+        <div className="mt-3 p-3 bg-gray-50 border border-gray-200 rounded-lg text-xs" data-testid="panel-sector-detail">
+          <div className="font-medium text-slate-800 mb-2">
+            Sector {selectedSector.index} @ {formatOffset(selectedSector.offset)} ({selectedSector.partition === 'eee' ? "EEE partition" : "user partition"})
+          </div>
+          <div className="grid grid-cols-3 gap-2 font-mono">
+            <div><span className="text-gray-600">State:</span> {selectedSector.state}</div>
+            <div><span className="text-gray-600">Status:</span> {SECTOR_STATUS_LABELS[selectedSector.status]}</div>
+            <div><span className="text-gray-600">Entropy:</span> {selectedSector.entropy.toFixed(2)} bits/byte</div>
+            <div><span className="text-gray-600">Valid records:</span> {selectedSector.validRecords}</div>
+            <div><span className="text-gray-600">Broken records:</span> {selectedSector.brokenRecords}</div>
+            <div><span className="text-gray-600">Partial writes:</span> {selectedSector.partialWords}</div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { FrmAnalysis } from "@shared/schema";
+import { FRM_LAYOUTS, type FrmVariant } from "@shared/frm/layouts";
+import { isFrmVariant, type VariantDetection } from "@shared/frm/variant-detection";
+
+interface VariantSelectorProps {
+  repairId: string;
+  detection: VariantDetection;
+  onAnalysisChange: (analysis: FrmAnalysis) => void;
+}
+
+interface VariantResponse {
+  repairId: string;
+  analysis: FrmAnalysis;
+}
+
+export default function VariantSelector({ repairId, detection, onAnalysisChange }: VariantSelectorProps) {
+  const current = detection.override ?? detection.variant;
+  const [variant, setVariant] = useState<FrmVariant>(
+    isFrmVariant(current) ? current : detection.candidates[0].variant
+  );
+  const { toast } = useToast();
+
+  const overrideMutation = useMutation<VariantResponse, Error>({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/frm/${repairId}/variant`, { variant });
+      return await response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Variant applied",
+        description: `Dump re-analyzed as ${FRM_LAYOUTS[variant].label}`,
+      });
+      onAnalysisChange(data.analysis);
+    },
+    onError: (error) => {
+      toast({
+        title: "Variant override failed",
+        description: error.message || "Failed to re-analyze the dump",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="mb-6 p-4 border border-gray-200 rounded-lg" data-testid="panel-variant-detection">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-sm font-medium text-slate-800">FRM Variant</span>
+        <span className="text-sm font-mono text-slate-900" data-testid="text-detected-variant">
+          {detection.override ? `${detection.override} (override)` : detection.variant}
+        </span>
+      </div>
+
+      {detection.ambiguous && !detection.override && (
+        <div className="text-xs text-orange-700 mb-3" data-testid="text-variant-ambiguous">
+          Several variants fit this dump equally well. Choose the one fitted to the vehicle.
+        </div>
+      )}
+
+      <div className="space-y-1 mb-3">
+        {detection.candidates.map((candidate) => (
+          <div key={candidate.variant} className="flex items-center space-x-2 text-xs" data-testid={`candidate-${candidate.variant}`}>
+            <span className="w-28 font-mono text-slate-800">{candidate.variant}</span>
+            <div className="flex-1 h-2 bg-gray-100 rounded">
+              <div className="h-2 bg-blue-500 rounded" style={{ width: `${Math.round(candidate.confidence * 100)}%` }} />
+            </div>
+            <span className="w-10 text-right text-gray-600">{Math.round(candidate.confidence * 100)}%</span>
+          </div>
+        ))}
+      </div>
+
+      {detection.evidence.length > 0 ? (
+        <div className="text-xs text-gray-600 space-y-1 mb-3">
+          {detection.evidence.map((item, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <Badge variant="outline" className="font-mono">+{item.weight}</Badge>
+              <span>{item.detail} → {item.supports}</span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-xs text-gray-500 mb-3">No variant evidence found; the default FRM3 layout is used.</div>
+      )}
+
+      <div className="flex items-center space-x-2">
+        <Select value={variant} onValueChange={(value) => setVariant(value as FrmVariant)}>
+          <SelectTrigger className="w-56" data-testid="select-variant-override">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.values(FRM_LAYOUTS).map((layout) => (
+              <SelectItem key={layout.variant} value={layout.variant}>
+                {layout.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          onClick={() => overrideMutation.mutate()}
+          disabled={overrideMutation.isPending || variant === current}
+          data-testid="button-apply-variant"
+        >
+          {overrideMutation.isPending ? "Re-analyzing..." : "Use this variant"}
+        </Button>
+      </div>
+    </div>
+  );
+}
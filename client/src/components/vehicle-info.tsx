@@ -1,41 +1,110 @@
+import { useState } from "react";
 import { Card } from "@/components/ui/card";
-import { Car, Settings } from "lucide-react";
+import { Car, ClipboardList, Pencil, Settings } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import HexView from "@/components/hex-view";
+import { formatOffset, type CodingCategory } from "@shared/frm/layouts";
+import { CODING_CATEGORY_LABELS, formatParameterValue, type CodingOverrides, type CodingParameter } from "@shared/frm/coding";
+import CodingEditor from "@/components/coding-editor";
+import { Button } from "@/components/ui/button";
+import type { FieldProvenance, FieldProvenanceMap } from "@shared/frm/engine";
+import { decodeVin } from "@shared/frm/vin-decoder";
+import { formatDistance, type DisplayUnit, type UnitDetection } from "@shared/frm/units";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useDisplayUnits } from "@/hooks/use-display-units";
+import type { SaOption, VehicleOrder } from "@shared/frm/vehicle-order";
+import { formatDiagnosticAddress, formatPartNumber, type ModuleIdentification } from "@shared/frm/identification";
 
 interface VehicleInfoProps {
+  repairId: string;
   vehicleData: {
     vin?: string;
     model?: string;
     year?: number;
+    chassisCode?: string;
     mileage?: number;
     frmType: string;
   };
-  configurationData: Record<string, any>;
+  coding: CodingParameter[];
+  provenance?: FieldProvenanceMap;
+  mileageUnit?: UnitDetection;
+  vehicleOrder?: VehicleOrder;
+  identification?: ModuleIdentification;
+  onCodingChange?: (overrides: CodingOverrides) => void;
 }
 
-export default function VehicleInfo({ vehicleData, configurationData }: VehicleInfoProps) {
+interface InspectedField {
+  label: string;
+  provenance: FieldProvenance;
+}
+
+export default function VehicleInfo({ repairId, vehicleData, coding, provenance = {}, mileageUnit, vehicleOrder, identification, onCodingChange }: VehicleInfoProps) {
+  const [inspected, setInspected] = useState<InspectedField | null>(null);
+  const [editingCoding, setEditingCoding] = useState(false);
+  const [codingOverrides, setCodingOverrides] = useState<CodingOverrides>({});
+  const [displayUnit, setDisplayUnit] = useDisplayUnits();
+
   const formatMileage = (mileage?: number) => {
     if (!mileage) return "Unknown";
-    return `${mileage.toLocaleString()} miles`;
+    return formatDistance(mileage, mileageUnit?.unit ?? 'km', displayUnit);
   };
 
-  const getConfigStatus = (value: any) => {
-    if (typeof value === 'boolean') {
-      return value ? "Enabled" : "Disabled";
-    }
-    if (typeof value === 'number' && value > 0) {
-      return `${value} seconds`;
-    }
-    return value?.toString() || "Unknown";
+  const decodedVin = vehicleData.vin ? decodeVin(vehicleData.vin) : undefined;
+  const codingByCategory = (Object.keys(CODING_CATEGORY_LABELS) as CodingCategory[])
+    .map(category => ({ category, parameters: coding.filter(parameter => parameter.category === category) }))
+    .filter(group => group.parameters.length > 0);
+
+  const getConfidenceVariant = (confidence: number) => {
+    if (confidence >= 0.9) return "default" as const;
+    return confidence >= 0.5 ? "secondary" as const : "destructive" as const;
+  };
+
+  const renderProvenance = (id: string, label: string) => {
+    const source = provenance[id];
+    if (!source) return null;
+
+    return (
+      <button
+        type="button"
+        onClick={() => setInspected({ label, provenance: source })}
+        className="mt-1 flex items-center space-x-2 text-xs text-gray-500 hover:text-blue-600"
+        data-testid={`provenance-${id}`}
+      >
+        <Badge variant={getConfidenceVariant(source.confidence)}>
+          {Math.round(source.confidence * 100)}%
+        </Badge>
+        <span className="font-mono">
+          {source.sources.map(item => `${item.region.toUpperCase()} ${formatOffset(item.offset)}`).join(", ")}
+        </span>
+        <span>
+          {source.copies} {source.copies === 1 ? "copy" : "copies"} · {source.decoder}
+        </span>
+      </button>
+    );
   };
 
-  const getConfigStatusColor = (value: any) => {
-    if (typeof value === 'boolean') {
-      return value ? "text-green-600" : "text-gray-500";
+  // Options tied to a coding field are checked against the current coding
+  const getOptionVariant = (option: SaOption) => {
+    const coded = coding.find(parameter => parameter.id === option.codingField);
+    if (!coded || coded.type !== 'boolean') return "outline" as const;
+    return coded.value ? "default" as const : "destructive" as const;
+  };
+
+  const getConfigStatusColor = (parameter: CodingParameter) => {
+    if (!parameter.valid) return "text-red-600";
+    if (parameter.type === 'boolean') {
+      return parameter.value ? "text-green-600" : "text-gray-500";
     }
     return "text-green-600";
   };
 
+  const describeAllowed = (parameter: CodingParameter) => {
+    if (parameter.range) return `Allowed ${parameter.range.min}-${parameter.range.max}${parameter.unit ? ` ${parameter.unit}` : ""}`;
+    if (parameter.options) return `Allowed: ${parameter.options.map(option => option.label).join(", ")}`;
+    return undefined;
+  };
+
   return (
     <div className="space-y-6">
       {/* Vehicle Information Card */}
@@ -51,64 +120,269 @@ export default function VehicleInfo({ vehicleData, configurationData }: VehicleI
             <div className="font-mono text-slate-900" data-testid="text-vin">
               {vehicleData.vin || "Not detected"}
             </div>
+            {renderProvenance('vin', "VIN Number")}
+            {decodedVin && (
+              <div className="mt-2 grid grid-cols-2 gap-1 text-xs text-gray-600" data-testid="text-vin-decoded">
+                <span>Manufacturer: {decodedVin.manufacturer ?? `Unknown WMI ${decodedVin.wmi}`}</span>
+                <span>Type code: <span className="font-mono">{decodedVin.typeCode}</span></span>
+                <span>Plant: {decodedVin.plant ?? "Unknown"}</span>
+                <span>Serial: <span className="font-mono">{decodedVin.serial}</span></span>
+                <span className={decodedVin.checkDigit.valid ? "text-green-600" : decodedVin.checkDigit.required ? "text-red-600" : "text-gray-500"}>
+                  Check digit: {decodedVin.checkDigit.valid
+                    ? "valid"
+                    : `${decodedVin.checkDigit.actual} (expected ${decodedVin.checkDigit.expected}${decodedVin.checkDigit.required ? "" : ", not required outside North America"})`}
+                </span>
+              </div>
+            )}
           </div>
           
           <div className="border-b border-gray-100 pb-3">
             <div className="text-sm text-gray-600 mb-1">Model</div>
             <div className="font-medium text-slate-900" data-testid="text-model">
               {vehicleData.model || "BMW (Unknown model)"}
+              {vehicleData.chassisCode && (
+                <Badge variant="outline" className="ml-2 font-mono" data-testid="badge-chassis-code">
+                  {vehicleData.chassisCode}
+                </Badge>
+              )}
             </div>
+            {renderProvenance('model', "Model")}
           </div>
           
           <div className="border-b border-gray-100 pb-3">
             <div className="text-sm text-gray-600 mb-1">Year</div>
             <div className="font-medium text-slate-900" data-testid="text-year">
               {vehicleData.year || "Unknown"}
+              {decodedVin && decodedVin.modelYearCandidates.length > 1 && (
+                <span className="ml-2 text-xs text-gray-500">
+                  (code {decodedVin.vis.charAt(0)}: {decodedVin.modelYearCandidates.join(" or ")})
+                </span>
+              )}
             </div>
+            {renderProvenance('year', "Year")}
           </div>
           
           <div className="border-b border-gray-100 pb-3">
-            <div className="text-sm text-gray-600 mb-1">Mileage</div>
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-sm text-gray-600">Mileage</span>
+              <Select value={displayUnit} onValueChange={(value) => setDisplayUnit(value as DisplayUnit)}>
+                <SelectTrigger className="h-7 w-32 text-xs" data-testid="select-display-unit">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="stored">As stored</SelectItem>
+                  <SelectItem value="km">Kilometres</SelectItem>
+                  <SelectItem value="mi">Miles</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
             <div className="font-medium text-slate-900" data-testid="text-mileage">
               {formatMileage(vehicleData.mileage)}
             </div>
+            {mileageUnit && (
+              <div className="text-xs text-gray-500" data-testid="text-mileage-unit">
+                Stored in {mileageUnit.unit === 'km' ? "kilometres" : "miles"} ({mileageUnit.detail})
+              </div>
+            )}
+            {renderProvenance('mileage', "Mileage")}
           </div>
           
-          <div className="pb-3">
+          <div className={identification ? "border-b border-gray-100 pb-3" : "pb-3"}>
             <div className="text-sm text-gray-600 mb-1">FRM Type</div>
             <div className="font-mono text-slate-900" data-testid="text-frm-type">
               {vehicleData.frmType}
             </div>
           </div>
+
+          {identification && (
+            <div className="pb-3">
+              <div className="text-sm text-gray-600 mb-1">Module Identification</div>
+              <div className="font-mono text-slate-900" data-testid="text-part-number">
+                {formatPartNumber(identification.partNumber)}
+                {identification.generation && (
+                  <Badge variant="outline" className="ml-2">
+                    {identification.generation}
+                  </Badge>
+                )}
+              </div>
+              {identification.description && (
+                <div className="text-xs text-gray-500">{identification.description}</div>
+              )}
+              <div className="mt-2 grid grid-cols-2 gap-1 text-xs text-gray-600" data-testid="text-identification">
+                <span>Hardware: <span className="font-mono">{identification.hardwareVersion}</span></span>
+                <span>Software: <span className="font-mono">{identification.softwareVersion}</span></span>
+                <span>Coding index: <span className="font-mono">{identification.codingIndex}</span></span>
+                <span>Diagnostic address: <span className="font-mono">{formatDiagnosticAddress(identification.diagnosticAddress)}</span></span>
+                <span>Supplier: {identification.supplier ?? `Unknown (${identification.supplierId})`}</span>
+                <span>
+                  Source: {identification.region.toUpperCase()} {formatOffset(identification.offset)}
+                  {identification.generationSource === 'hardware-version' && " (generation from hardware version)"}
+                </span>
+              </div>
+            </div>
+          )}
         </div>
       </Card>
 
-      {/* Configuration Data Card */}
-      <Card className="p-6" data-testid="card-module-config">
-        <h3 className="text-lg font-semibold text-slate-900 mb-4 flex items-center">
-          <Settings className="text-blue-600 mr-3 w-5 h-5" />
-          Module Configuration
-        </h3>
-        
-        <div className="space-y-3">
-          {Object.entries(configurationData).map(([key, value]) => (
-            <div key={key} className="flex items-center justify-between py-2 border-b border-gray-100" data-testid={`config-${key.toLowerCase().replace(/\s+/g, '-')}`}>
-              <span className="text-sm text-gray-600 capitalize">
-                {key.replace(/([A-Z])/g, ' $1').trim()}
-              </span>
-              <span className={`font-medium ${getConfigStatusColor(value)}`}>
-                {getConfigStatus(value)}
-              </span>
+      {/* Vehicle Order Card */}
+      {vehicleOrder && (
+        <Card className="p-6" data-testid="card-vehicle-order">
+          <h3 className="text-lg font-semibold text-slate-900 mb-4 flex items-center">
+            <ClipboardList className="text-blue-600 mr-3 w-5 h-5" />
+            Vehicle Order
+          </h3>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4 border-b border-gray-100 pb-3">
+              <div>
+                <div className="text-sm text-gray-600 mb-1">Type Key</div>
+                <div className="font-mono text-slate-900" data-testid="text-type-key">
+                  {vehicleOrder.typeKey}
+                  {vehicleOrder.chassisCode && (
+                    <Badge variant="outline" className="ml-2 font-mono">{vehicleOrder.chassisCode}</Badge>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500">{vehicleOrder.model ?? "Unknown type key"}</div>
+              </div>
+              <div>
+                <div className="text-sm text-gray-600 mb-1">Build Date</div>
+                <div className="font-medium text-slate-900" data-testid="text-build-date">
+                  {vehicleOrder.buildDate
+                    ? `${String(vehicleOrder.buildDate.month).padStart(2, '0')}/${vehicleOrder.buildDate.year}`
+                    : "Unknown"}
+                </div>
+              </div>
             </div>
-          ))}
-          
-          {Object.keys(configurationData).length === 0 && (
-            <div className="text-sm text-gray-500 py-4 text-center">
-              No configuration data available
+            {renderProvenance('vehicleOrder', "Vehicle Order")}
+
+            <div>
+              <div className="text-sm text-gray-600 mb-2">SA Options ({vehicleOrder.options.length})</div>
+              <div className="space-y-1" data-testid="list-sa-options">
+                {vehicleOrder.options.map((option) => (
+                  <div key={option.code} className="flex items-center space-x-2 text-sm" data-testid={`sa-${option.code}`}>
+                    <Badge variant={getOptionVariant(option)} className="font-mono w-12 justify-center">
+                      {option.code}
+                    </Badge>
+                    <span className={option.description ? "text-slate-900" : "text-gray-500"}>
+                      {option.description ?? "Not relevant to FRM coding"}
+                    </span>
+                  </div>
+                ))}
+                {vehicleOrder.options.length === 0 && (
+                  <div className="text-sm text-gray-500">No SA codes stored</div>
+                )}
+              </div>
             </div>
+          </div>
+        </Card>
+      )}
+
+      {/* Configuration Data Card */}
+      <Card className="p-6" data-testid="card-module-config">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-slate-900 flex items-center">
+            <Settings className="text-blue-600 mr-3 w-5 h-5" />
+            Module Configuration
+          </h3>
+          {coding.length > 0 && !editingCoding && (
+            <Button variant="outline" size="sm" onClick={() => setEditingCoding(true)} data-testid="button-edit-coding">
+              <Pencil className="mr-1 w-3 h-3" />
+              Edit
+            </Button>
           )}
         </div>
+
+        {editingCoding ? (
+          <CodingEditor
+            repairId={repairId}
+            coding={coding}
+            overrides={codingOverrides}
+            onSaved={(overrides) => {
+              setCodingOverrides(overrides);
+              setEditingCoding(false);
+              onCodingChange?.(overrides);
+            }}
+            onCancel={() => setEditingCoding(false)}
+          />
+        ) : (
+          <div className="space-y-4">
+            {codingByCategory.map(({ category, parameters }) => (
+              <div key={category} data-testid={`config-group-${category}`}>
+                <div className="text-xs font-medium uppercase tracking-wide text-gray-500 mb-1">
+                  {CODING_CATEGORY_LABELS[category]}
+                </div>
+                {parameters.map((parameter) => (
+                  <div key={parameter.id} className="flex items-center justify-between py-2 border-b border-gray-100" data-testid={`config-${parameter.id.toLowerCase()}`}>
+                    <span
+                      className="text-sm text-gray-600"
+                      title={[
+                        `${parameter.region.toUpperCase()} ${formatOffset(parameter.offset)}${parameter.bit !== undefined ? ` bit ${parameter.bit}` : ""}`,
+                        describeAllowed(parameter),
+                      ].filter(Boolean).join(" · ")}
+                    >
+                      {parameter.label}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => provenance[parameter.id] && setInspected({ label: parameter.label, provenance: provenance[parameter.id] })}
+                      className={`font-medium ${getConfigStatusColor(parameter)}`}
+                    >
+                      {parameter.id in codingOverrides ? (
+                        <>
+                          <span className="line-through text-gray-400 mr-2">{parameter.display}</span>
+                          <span className="text-blue-600" data-testid={`override-${parameter.id.toLowerCase()}`}>
+                            {formatParameterValue(parameter, codingOverrides[parameter.id])}
+                          </span>
+                        </>
+                      ) : (
+                        <>
+                          {parameter.display}
+                          {!parameter.valid && " (out of range)"}
+                        </>
+                      )}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            ))}
+          
+            {coding.length === 0 && (
+              <div className="text-sm text-gray-500 py-4 text-center">
+                No configuration data available
+              </div>
+            )}
+
+            {Object.keys(codingOverrides).length > 0 && (
+              <div className="text-xs text-blue-600" data-testid="text-coding-overrides">
+                {Object.keys(codingOverrides).length} parameter(s) will be changed when the EEPROM is built
+              </div>
+            )}
+          </div>
+        )}
       </Card>
+
+      <Dialog open={inspected !== null} onOpenChange={(open) => !open && setInspected(null)}>
+        <DialogContent className="max-w-3xl">
+          {inspected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{inspected.label}</DialogTitle>
+                <DialogDescription>
+                  {inspected.provenance.copies} {inspected.provenance.copies === 1 ? "copy" : "copies"}, decoded as {inspected.provenance.decoder},
+                  {" "}{Math.round(inspected.provenance.confidence * 100)}% confidence
+                </DialogDescription>
+              </DialogHeader>
+              {inspected.provenance.sources.length > 0 && (
+                <HexView
+                  repairId={repairId}
+                  region={inspected.provenance.sources[0].region}
+                  highlights={inspected.provenance.sources.filter(source => source.region === inspected.provenance.sources[0].region)}
+                />
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
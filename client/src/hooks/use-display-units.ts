@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useState } from "react";
+import type { DisplayUnit } from "@shared/frm/units";
+
+const STORAGE_KEY = "frm-display-units";
+const CHANGE_EVENT = "frm-display-units-change";
+
+function readPreference(): DisplayUnit {
+  const stored = window.localStorage.getItem(STORAGE_KEY);
+  return stored === 'km' || stored === 'mi' ? stored : 'stored';
+}
+
+/**
+ * Display unit preference for odometer readings, persisted in localStorage
+ * and shared by every component using the hook
+ */
+export function useDisplayUnits(): [DisplayUnit, (unit: DisplayUnit) => void] {
+  const [unit, setUnitState] = useState<DisplayUnit>(readPreference);
+
+  useEffect(() => {
+    const onChange = () => setUnitState(readPreference());
+    window.addEventListener(CHANGE_EVENT, onChange);
+    window.addEventListener("storage", onChange);
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, onChange);
+      window.removeEventListener("storage", onChange);
+    };
+  }, []);
+
+  const setUnit = useCallback((next: DisplayUnit) => {
+    window.localStorage.setItem(STORAGE_KEY, next);
+    window.dispatchEvent(new Event(CHANGE_EVENT));
+  }, []);
+
+  return [unit, setUnit];
+}
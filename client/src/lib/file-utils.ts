@@ -1,26 +1,31 @@
+import { DUMP_FILE_EXTENSIONS } from "@shared/frm/file-formats";
+import { looksLikeIntelHex, parseIntelHex, type IntelHexImage } from "@shared/frm/intel-hex";
+import { looksLikeSRecord, parseSRecord, type SRecordImage } from "@shared/frm/srecord";
+import { decodeVin, isValidVinFormat } from "@shared/frm/vin-decoder";
+
 export class FileUtils {
   /**
    * Validates if uploaded file is a valid BMW FRM D-Flash dump
    */
   static validateFRMFile(file: File): { isValid: boolean; error?: string } {
     // Check file extension
-    const validExtensions = ['.bin', '.hex', '.eep'];
-    const hasValidExtension = validExtensions.some(ext => 
+    const hasValidExtension = DUMP_FILE_EXTENSIONS.some(ext => 
       file.name.toLowerCase().endsWith(ext)
     );
     
     if (!hasValidExtension) {
       return {
         isValid: false,
-        error: 'Invalid file extension. Only .bin, .hex, and .eep files are supported.'
+        error: 'Invalid file extension. Only .bin, .hex, .eep and S-record files are supported.'
       };
     }
     
-    // Check file size (32KB for D-Flash, allow some tolerance)
-    if (file.size < 30000 || file.size > 64000) {
+    // Check file size (4KB EEPROM up to full-chip images, HEX/S-record text is ~2.8x larger)
+    const maxSize = this.isTextContainer(file.name) ? 2 * 1024 * 1024 : 1024 * 1024;
+    if (file.size < 4096 || file.size > maxSize) {
       return {
         isValid: false,
-        error: `Invalid file size. Expected ~32KB D-Flash dump, got ${file.size} bytes.`
+        error: `Invalid file size. Expected a 32KB D-Flash dump, 4KB EEPROM or full-chip image, got ${file.size} bytes.`
       };
     }
     
@@ -46,38 +51,44 @@ export class FileUtils {
   }
 
   /**
-   * Converts hex file content to binary data
+   * Parses Intel HEX content, placing bytes at their load addresses.
+   * Bad checksums and malformed records are reported with line numbers.
    */
-  static parseHexFile(hexContent: string): Uint8Array {
-    const lines = hexContent.split('\n').filter(line => line.trim().startsWith(':'));
-    const data: number[] = [];
-    
-    for (const line of lines) {
-      if (line.length < 11) continue; // Minimum Intel HEX record length
-      
-      const byteCount = parseInt(line.substring(1, 3), 16);
-      const recordType = parseInt(line.substring(7, 9), 16);
-      
-      // Only process data records (type 00)
-      if (recordType === 0x00) {
-        for (let i = 0; i < byteCount; i++) {
-          const bytePos = 9 + (i * 2);
-          if (bytePos + 1 < line.length) {
-            const byte = parseInt(line.substring(bytePos, bytePos + 2), 16);
-            data.push(byte);
-          }
-        }
-      }
-    }
-    
-    return new Uint8Array(data);
+  static parseHexFile(hexContent: string): IntelHexImage {
+    return parseIntelHex(hexContent);
+  }
+
+  /**
+   * Parses Motorola S-record (S19/S28/S37) content with per-record checksum
+   * validation
+   */
+  static parseSRecordFile(srecordContent: string): SRecordImage {
+    return parseSRecord(srecordContent);
+  }
+
+  /**
+   * Whether the filename denotes a text container (Intel HEX or S-record)
+   */
+  static isTextContainer(filename: string): boolean {
+    const name = filename.toLowerCase();
+    return !name.endsWith('.bin') && !name.endsWith('.eep');
   }
 
   /**
    * Creates download link for binary data
    */
   static downloadBinaryFile(data: Uint8Array, filename: string): void {
-    const blob = new Blob([data], { type: 'application/octet-stream' });
+    this.downloadBlob(new Blob([data], { type: 'application/octet-stream' }), filename);
+  }
+
+  /**
+   * Creates download link for text content such as CSV exports
+   */
+  static downloadTextFile(content: string, filename: string, mimeType = 'text/plain'): void {
+    this.downloadBlob(new Blob([content], { type: `${mimeType};charset=utf-8` }), filename);
+  }
+
+  private static downloadBlob(blob: Blob, filename: string): void {
     const url = URL.createObjectURL(blob);
     
     const a = document.createElement('a');
@@ -109,12 +120,15 @@ export class FileUtils {
   /**
    * Detects file format based on content
    */
-  static detectFileFormat(data: Uint8Array): 'binary' | 'hex' | 'unknown' {
-    // Check if it's a hex file (starts with ':' and contains hex characters)
-    const textContent = new TextDecoder('ascii', { fatal: false }).decode(data.slice(0, 100));
-    if (textContent.startsWith(':') && /^[:\r\n0-9A-Fa-f\s]+$/.test(textContent)) {
+  static detectFileFormat(data: Uint8Array): 'binary' | 'hex' | 'srec' | 'unknown' {
+    if (looksLikeIntelHex(data)) {
       return 'hex';
     }
+    if (looksLikeSRecord(data)) {
+      return 'srec';
+    }
+    
+    const textContent = new TextDecoder('ascii', { fatal: false }).decode(data.slice(0, 100));
     
     // Check if it's binary (contains non-printable characters)
     const printableChars = textContent.split('').filter(char => {
@@ -130,28 +144,16 @@ export class FileUtils {
   }
 
   /**
-   * Validates BMW VIN format
+   * Validates VIN format: 17 characters, no I, O, Q
    */
   static validateVIN(vin: string): boolean {
-    // BMW VIN validation: 17 characters, no I, O, Q
-    return /^[A-HJ-NPR-Z0-9]{17}$/.test(vin);
+    return isValidVinFormat(vin);
   }
 
   /**
-   * Extracts year from VIN
+   * Extracts model year from VIN (30-year cycle resolved by the VIN decoder)
    */
   static getYearFromVIN(vin: string): number | null {
-    if (!this.validateVIN(vin)) return null;
-    
-    const yearChar = vin.charAt(9);
-    const yearMap: { [key: string]: number } = {
-      '1': 2001, '2': 2002, '3': 2003, '4': 2004, '5': 2005,
-      '6': 2006, '7': 2007, '8': 2008, '9': 2009, 'A': 2010,
-      'B': 2011, 'C': 2012, 'D': 2013, 'E': 2014, 'F': 2015,
-      'G': 2016, 'H': 2017, 'J': 2018, 'K': 2019, 'L': 2020,
-      'M': 2021, 'N': 2022, 'P': 2023, 'R': 2024, 'S': 2025,
-    };
-    
-    return yearMap[yearChar] || null;
+    return decodeVin(vin)?.modelYear ?? null;
   }
 }
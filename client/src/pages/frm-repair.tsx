@@ -5,17 +5,34 @@ import { Car, Shield } from "lucide-react";
 import FileUpload from "@/components/file-upload";
 import AnalysisResults from "@/components/analysis-results";
 import VehicleInfo from "@/components/vehicle-info";
-import ConversionProcess from "@/components/conversion-process";
+import LampChannelTable from "@/components/lamp-channel-table";
+import ConversionProcess, { type ConversionSummary } from "@/components/conversion-process";
+import DFlashEncoder from "@/components/dflash-encoder";
 import type { FrmAnalysis } from "@shared/schema";
 
 export default function FrmRepair() {
   const [repairId, setRepairId] = useState<string | null>(null);
   const [analysis, setAnalysis] = useState<FrmAnalysis | null>(null);
   const [conversionStatus, setConversionStatus] = useState<'idle' | 'converting' | 'completed' | 'failed'>('idle');
+  const [conversionSummary, setConversionSummary] = useState<ConversionSummary | undefined>();
 
+  // A new dump starts over; nothing from the previous repair carries over
   const handleFileUploaded = (id: string, analysisData: FrmAnalysis) => {
     setRepairId(id);
     setAnalysis(analysisData);
+    setConversionStatus('idle');
+    setConversionSummary(undefined);
+  };
+
+  // A variant override re-analyzes the dump; earlier conversion results are void
+  const handleAnalysisChange = (analysisData: FrmAnalysis) => {
+    setAnalysis(analysisData);
+    setConversionStatus('idle');
+  };
+
+  // Saved coding invalidates an EEPROM built before it
+  const handleCodingChange = () => {
+    setConversionStatus('idle');
   };
 
   const handleConversionComplete = () => {
@@ -91,10 +108,21 @@ export default function FrmRepair() {
             <FileUpload onFileUploaded={handleFileUploaded} />
             
             {analysis && (
+              // Remount per dump and variant so confirmations never carry over
               <AnalysisResults 
+                key={`${repairId}:${analysis.vehicleData.frmType}`}
                 analysis={analysis} 
                 repairId={repairId!}
                 onConversionStatusChange={setConversionStatus}
+                onAnalysisChange={handleAnalysisChange}
+                onConversionResult={setConversionSummary}
+              />
+            )}
+
+            {analysis?.lampChannels && (
+              <LampChannelTable
+                channels={analysis.lampChannels}
+                vin={analysis.vehicleData.vin}
               />
             )}
             
@@ -103,17 +131,32 @@ export default function FrmRepair() {
                 repairId={repairId!}
                 analysis={analysis}
                 status={conversionStatus}
+                summary={conversionSummary}
                 onComplete={handleConversionComplete}
               />
             )}
+
+            {analysis && (analysis.classification?.kind === 'eeprom' || conversionStatus === 'completed') && (
+              <DFlashEncoder 
+                repairId={repairId!}
+                analysis={analysis}
+              />
+            )}
           </div>
 
           {/* Sidebar */}
           <div className="space-y-6">
             {analysis && (
               <VehicleInfo 
+                key={`${repairId}:${analysis.vehicleData.frmType}`}
+                repairId={repairId!}
                 vehicleData={analysis.vehicleData}
-                configurationData={analysis.configurationData}
+                coding={analysis.coding}
+                provenance={analysis.provenance}
+                mileageUnit={analysis.mileageUnit}
+                vehicleOrder={analysis.vehicleOrder}
+                identification={analysis.identification}
+                onCodingChange={handleCodingChange}
               />
             )}
 
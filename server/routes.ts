@@ -3,75 +3,150 @@ import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import multer from "multer";
 import { insertFrmRepairSchema } from "@shared/schema";
-import { frmConverter } from "../client/src/services/frm-converter";
+import {
+  analyzeDFlash,
+  analyzeEeprom,
+  convertDFlashToEeprom,
+  convertEepromImage,
+  detectEepromLayout,
+  encodeEepromToDFlash,
+  isRepairable,
+  parseDFlash,
+} from "@shared/frm/engine";
+import {
+  decodeDump,
+  DUMP_FILE_EXTENSIONS,
+  DUMP_FORMAT_LABELS,
+  encodeExport,
+  EXPORT_FORMATS,
+  isExportFormat,
+} from "@shared/frm/file-formats";
+import { verifyChecksums } from "@shared/frm/checksums";
+import { validateCodingOverrides } from "@shared/frm/coding";
+import { validateRepairRequests, type RepairRequest } from "@shared/frm/eeprom-validation";
+import { locateDFlash } from "@shared/frm/dump-slicer";
+import { identifyFirmware } from "@shared/frm/firmware";
+import { classifyInput } from "@shared/frm/input-classifier";
+import { formatHexErrors } from "@shared/frm/intel-hex";
+import { FRM_LAYOUTS, getLayout } from "@shared/frm/layouts";
+import { normalizeDFlash, normalizeEeprom } from "@shared/frm/normalize";
+import { isFrmVariant } from "@shared/frm/variant-detection";
 
 const upload = multer({
   storage: multer.memoryStorage(),
   limits: {
-    fileSize: 64 * 1024, // 64KB max
+    fileSize: 2 * 1024 * 1024, // 2MB max - full-chip XET512 dumps as Intel HEX/S-record text
   },
   fileFilter: (req, file, cb) => {
-    const allowedExtensions = ['.bin', '.hex', '.eep'];
-    const hasValidExtension = allowedExtensions.some(ext => 
+    const hasValidExtension = DUMP_FILE_EXTENSIONS.some(ext => 
       file.originalname.toLowerCase().endsWith(ext)
     );
     
     if (hasValidExtension) {
       cb(null, true);
     } else {
-      cb(new Error('Invalid file type. Only .bin, .hex, and .eep files are allowed.'));
+      cb(new Error('Invalid file type. Only .bin, .hex, .eep and S-record (.s19/.s28/.s37) files are allowed.'));
     }
   }
 });
 
 export async function registerRoutes(app: Express): Promise<Server> {
   
-  // Upload and analyze FRM D-Flash dump
+  // Upload, classify and analyze an FRM dump
   app.post("/api/frm/upload", upload.single('file'), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: "No file uploaded" });
       }
 
-      const fileBuffer = req.file.buffer;
-      
-      // Validate file size (should be 32KB for D-Flash)
-      if (fileBuffer.length !== 32768) {
+      // Decode Intel HEX and S-record containers to a flat binary
+      const decoded = decodeDump(req.file.buffer);
+      if (decoded.errors.length > 0) {
+        return res.status(400).json({
+          error: `Invalid ${DUMP_FORMAT_LABELS[decoded.format]} file: ${formatHexErrors(decoded.errors)}`,
+          details: decoded.errors,
+        });
+      }
+
+      // Decide what the file actually is before picking a processing path
+      const classification = classifyInput(decoded);
+
+      if (classification.kind === 'pflash') {
+        return res.json({
+          repairId: null,
+          analysis: null,
+          classification,
+          firmware: identifyFirmware(decoded.data),
+        });
+      }
+
+      const isEeprom = classification.kind === 'eeprom';
+
+      // Full-chip and P-Flash+D-Flash images are sliced down to the D-Flash
+      const slice = isEeprom ? null : locateDFlash(decoded);
+      if (!isEeprom && !slice) {
         return res.status(400).json({ 
-          error: `Invalid file size. Expected 32KB D-Flash dump, got ${fileBuffer.length} bytes` 
+          error: `Unrecognised file. Expected a 32KB D-Flash dump, a 4KB EEPROM or a full-chip MC9S12XE image, got ${decoded.data.length} bytes`,
+          classification,
         });
       }
 
+      // Undo word-swapped or bank-reordered reads before anything decodes fields
+      const normalization = isEeprom ? normalizeEeprom(decoded.data) : normalizeDFlash(slice!.data);
+      const fileBuffer = Buffer.from(normalization.data);
+
       // Create initial repair record
       const repairData = {
         filename: req.file.originalname,
-        fileSize: fileBuffer.length,
+        fileSize: req.file.size,
         frmType: "Unknown", // Will be determined during analysis
+        inputKind: isEeprom ? "eeprom" : "dflash",
         repairStatus: "analyzing" as const,
         originalData: fileBuffer,
+        sourceData: req.file.buffer,
         repairedData: null,
+        encodedData: null,
+        codingOverrides: null,
         analysisData: null,
         vin: null,
         mileage: null,
+        mileageUnit: null,
       };
 
       const repair = await storage.createFrmRepair(repairData);
 
       // Perform analysis
-      const analysis = await analyzeDFlash(fileBuffer);
+      const analysis = {
+        ...(isEeprom ? analyzeEeprom(fileBuffer) : analyzeDFlash(fileBuffer, { mcu: slice?.mcu })),
+        source: {
+          format: decoded.format,
+          fileSize: req.file.size,
+          imageKind: slice ? slice.imageKind : 'eeprom',
+          sliceMethod: slice ? slice.method : 'whole-file',
+          dflashOffset: slice ? slice.offset : 0,
+          mcu: slice?.mcu,
+        },
+        classification,
+        normalization: {
+          transform: normalization.transform,
+          candidates: normalization.candidates,
+        },
+      };
       
       // Update repair record with analysis results
       const updatedRepair = await storage.updateFrmRepair(repair.id, {
         frmType: analysis.vehicleData.frmType,
         vin: analysis.vehicleData.vin || null,
         mileage: analysis.vehicleData.mileage || null,
+        mileageUnit: analysis.mileageUnit?.unit ?? null,
         analysisData: JSON.stringify(analysis),
-        repairStatus: analysis.corruptionLevel > 95 ? "failed" : "analyzed",
+        repairStatus: isRepairable(analysis.integrity) ? "analyzed" : "failed",
       });
 
       res.json({
         repairId: repair.id,
         analysis,
+        classification,
       });
 
     } catch (error: any) {
@@ -80,7 +155,138 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Convert D-Flash to EEPROM
+  // Verify the block checksums of any EEPROM image without creating a repair
+  app.post("/api/frm/checksums", upload.single('file'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: "No file uploaded" });
+      }
+
+      const decoded = decodeDump(req.file.buffer);
+      if (decoded.errors.length > 0) {
+        return res.status(400).json({
+          error: `Invalid ${DUMP_FORMAT_LABELS[decoded.format]} file: ${formatHexErrors(decoded.errors)}`,
+          details: decoded.errors,
+        });
+      }
+
+      const variant = req.body?.variant;
+      if (variant !== undefined && variant !== '' && !isFrmVariant(variant)) {
+        return res.status(400).json({ 
+          error: `Unknown FRM variant "${variant}". Use one of: ${Object.keys(FRM_LAYOUTS).join(', ')}` 
+        });
+      }
+
+      const layout = isFrmVariant(variant) ? getLayout(variant) : detectEepromLayout(decoded.data);
+      if (decoded.data.length !== layout.eepromSize) {
+        return res.status(400).json({ 
+          error: `Invalid EEPROM size. Expected ${layout.eepromSize} bytes, got ${decoded.data.length} bytes` 
+        });
+      }
+
+      const blocks = verifyChecksums(decoded.data, layout);
+      res.json({
+        variant: layout.variant,
+        passed: blocks.every(block => block.status !== 'invalid'),
+        blocks,
+      });
+
+    } catch (error: any) {
+      console.error("Checksum verification error:", error);
+      res.status(500).json({ error: error.message || "Failed to verify checksums" });
+    }
+  });
+
+  // Re-analyze a dump with a variant chosen over the detected one
+  app.post("/api/frm/:id/variant", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const repair = await storage.getFrmRepair(id);
+      
+      if (!repair || !repair.originalData) {
+        return res.status(404).json({ error: "Repair not found" });
+      }
+
+      const variant = req.body?.variant;
+      if (!isFrmVariant(variant)) {
+        return res.status(400).json({ 
+          error: `Unknown FRM variant "${variant}". Use one of: ${Object.keys(FRM_LAYOUTS).join(', ')}` 
+        });
+      }
+
+      // Upload context (source, classification, byte order) does not depend on the variant
+      const previous = repair.analysisData ? JSON.parse(repair.analysisData) : {};
+      const analysis = {
+        ...(repair.inputKind === 'eeprom'
+          ? analyzeEeprom(Buffer.from(repair.originalData), { variant })
+          : analyzeDFlash(Buffer.from(repair.originalData), { variant, mcu: previous.source?.mcu })),
+        source: previous.source,
+        classification: previous.classification,
+        normalization: previous.normalization,
+      };
+
+      // Results produced with the old layout no longer apply
+      await storage.updateFrmRepair(id, {
+        frmType: analysis.vehicleData.frmType,
+        vin: analysis.vehicleData.vin || null,
+        mileage: analysis.vehicleData.mileage || null,
+        mileageUnit: analysis.mileageUnit?.unit ?? null,
+        analysisData: JSON.stringify(analysis),
+        repairedData: null,
+        encodedData: null,
+        codingOverrides: null,
+        repairStatus: isRepairable(analysis.integrity) ? "analyzed" : "failed",
+      });
+
+      res.json({
+        repairId: id,
+        analysis,
+      });
+
+    } catch (error: any) {
+      console.error("Variant override error:", error);
+      res.status(500).json({ error: error.message || "Failed to apply FRM variant" });
+    }
+  });
+
+  // Store coding values to apply when the EEPROM is built (an empty object clears them)
+  app.put("/api/frm/:id/coding", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const repair = await storage.getFrmRepair(id);
+      
+      if (!repair) {
+        return res.status(404).json({ error: "Repair not found" });
+      }
+
+      const overrides = req.body?.overrides;
+      if (typeof overrides !== 'object' || overrides === null || Array.isArray(overrides)) {
+        return res.status(400).json({ error: "Expected an overrides object of coding parameter values" });
+      }
+
+      const errors = validateCodingOverrides(getLayout(repair.frmType), overrides);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: errors.join('; '), details: errors });
+      }
+
+      // An earlier conversion no longer reflects the coding
+      const changed = Object.keys(overrides).length > 0;
+      await storage.updateFrmRepair(id, {
+        codingOverrides: changed ? JSON.stringify(overrides) : null,
+        repairedData: null,
+        encodedData: null,
+        repairStatus: repair.repairStatus === "completed" ? "analyzed" : repair.repairStatus,
+      });
+
+      res.json({ overrides });
+
+    } catch (error: any) {
+      console.error("Coding override error:", error);
+      res.status(500).json({ error: error.message || "Failed to save coding overrides" });
+    }
+  });
+
+  // Convert D-Flash to EEPROM (EEPROM uploads are validated and passed through)
   app.post("/api/frm/:id/convert", async (req, res) => {
     try {
       const { id } = req.params;
@@ -94,17 +300,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "No original data available for conversion" });
       }
 
-      // Perform D-Flash to EEPROM conversion
-      const conversionResult = await convertDFlashToEEPROM(Buffer.from(repair.originalData));
+      // A conflicting odometer ring is never resolved silently
+      const analysis = repair.analysisData ? JSON.parse(repair.analysisData) : null;
+      if (analysis?.odometer?.status === 'conflict' && req.body?.confirmMileage !== true) {
+        return res.status(409).json({ 
+          error: "Odometer records conflict. Confirm the mileage before converting.",
+          odometer: analysis.odometer,
+        });
+      }
+
+      // An EEPROM image that fits several variants is never decoded with a guessed layout
+      const detection = analysis?.variantDetection;
+      if (repair.inputKind === 'eeprom' && detection?.ambiguous && !detection.override) {
+        return res.status(409).json({ 
+          error: "Several FRM variants match this EEPROM. Choose the variant before converting.",
+          variantDetection: detection,
+        });
+      }
+
+      // Block repairs are offered for uploaded EEPROM images only
+      const repairs: RepairRequest[] | undefined = req.body?.repairs;
+      if (repairs !== undefined) {
+        if (repair.inputKind !== 'eeprom') {
+          return res.status(400).json({ error: "Block repairs can only be applied to an uploaded EEPROM image" });
+        }
+        if (!Array.isArray(repairs) || repairs.some(item => typeof item?.blockId !== 'string')) {
+          return res.status(400).json({ error: "Repairs must be a list of { blockId, action }" });
+        }
+        const errors = validateRepairRequests(Buffer.from(repair.originalData), getLayout(repair.frmType), repairs);
+        if (errors.length > 0) {
+          return res.status(400).json({ error: "Invalid block repairs", details: errors });
+        }
+      }
+
+      // Perform D-Flash to EEPROM conversion, applying the technician's coding
+      const options = {
+        variant: repair.frmType,
+        codingOverrides: repair.codingOverrides ? JSON.parse(repair.codingOverrides) : undefined,
+        repairs,
+      };
+      const conversionResult = repair.inputKind === 'eeprom'
+        ? convertEepromImage(Buffer.from(repair.originalData), options)
+        : convertDFlashToEeprom(Buffer.from(repair.originalData), options);
       
-      if (!conversionResult.success) {
+      if (!conversionResult.success || !conversionResult.eepromData) {
         await storage.updateFrmRepair(id, { repairStatus: "failed" });
         return res.status(400).json({ error: conversionResult.error });
       }
 
       // Update repair record with repaired data
       await storage.updateFrmRepair(id, {
-        repairedData: conversionResult.eepromData,
+        repairedData: Buffer.from(conversionResult.eepromData),
         repairStatus: "completed",
       });
 
@@ -112,6 +358,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         success: true,
         message: "Conversion completed successfully",
         eepromSize: conversionResult.eepromData.length,
+        checksum: conversionResult.checksum,
+        codingChanges: conversionResult.codingChanges ?? [],
+        blockChecksums: conversionResult.blockChecksums ?? [],
+        repairChanges: conversionResult.repairChanges ?? [],
       });
 
     } catch (error: any) {
@@ -130,13 +380,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Repaired file not found" });
       }
 
-      const filename = repair.filename.replace(/\.(bin|hex|eep)$/i, '_repaired.bin');
+      const format = req.query.format ?? 'bin';
+      if (!isExportFormat(format)) {
+        return res.status(400).json({ 
+          error: `Unsupported download format "${format}". Use one of: ${Object.keys(EXPORT_FORMATS).join(', ')}` 
+        });
+      }
+
+      const { extension, contentType } = EXPORT_FORMATS[format];
+      const basename = repair.filename.replace(/\.[^.]+$/, '');
+      const body = Buffer.from(encodeExport(repair.repairedData, format, `${basename}_repaired`));
       
-      res.setHeader('Content-Type', 'application/octet-stream');
-      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
-      res.setHeader('Content-Length', repair.repairedData.length);
+      res.setHeader('Content-Type', contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${basename}_repaired${extension}"`);
+      res.setHeader('Content-Length', body.length);
       
-      res.send(Buffer.from(repair.repairedData));
+      res.send(body);
 
     } catch (error: any) {
       console.error("Download error:", error);
@@ -144,8 +403,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get repair status
-  app.get("/api/frm/:id", async (req, res) => {
+  // Encode the EEPROM back into an EEE D-Flash for the chosen variant
+  app.post("/api/frm/:id/encode", async (req, res) => {
     try {
       const { id } = req.params;
       const repair = await storage.getFrmRepair(id);
@@ -154,226 +413,161 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Repair not found" });
       }
 
+      const variant = req.body?.variant;
+      if (!isFrmVariant(variant)) {
+        return res.status(400).json({ 
+          error: `Unknown FRM variant "${variant}". Use one of: ${Object.keys(FRM_LAYOUTS).join(', ')}` 
+        });
+      }
+
+      const eeprom = repair.inputKind === 'eeprom' ? repair.originalData : repair.repairedData;
+      if (!eeprom) {
+        return res.status(400).json({ error: "No EEPROM available. Convert the D-Flash first or upload an EEPROM image" });
+      }
+
+      // Keep the user partition of an uploaded D-Flash of the same variant
+      const baseDFlash = repair.inputKind === 'dflash' && repair.originalData &&
+        repair.frmType === variant ? Buffer.from(repair.originalData) : undefined;
+
+      const encodeResult = encodeEepromToDFlash(Buffer.from(eeprom), variant, baseDFlash);
+      
+      if (!encodeResult.success || !encodeResult.dflashData) {
+        return res.status(400).json({ error: encodeResult.error, selfCheck: encodeResult.selfCheck });
+      }
+
+      await storage.updateFrmRepair(id, {
+        encodedData: Buffer.from(encodeResult.dflashData),
+      });
+
       res.json({
-        id: repair.id,
-        filename: repair.filename,
-        fileSize: repair.fileSize,
-        frmType: repair.frmType,
-        vin: repair.vin,
-        mileage: repair.mileage,
-        repairStatus: repair.repairStatus,
-        analysisData: repair.analysisData ? JSON.parse(repair.analysisData) : null,
-        createdAt: repair.createdAt,
+        success: true,
+        variant,
+        dflashSize: encodeResult.dflashData.length,
+        selfCheck: encodeResult.selfCheck,
       });
 
     } catch (error: any) {
-      console.error("Status error:", error);
-      res.status(500).json({ error: error.message || "Failed to get repair status" });
+      console.error("Encode error:", error);
+      res.status(500).json({ error: error.message || "Failed to encode D-Flash" });
     }
   });
 
-  const httpServer = createServer(app);
-  return httpServer;
-}
+  // Download the D-Flash rebuilt by the encode flow
+  app.get("/api/frm/:id/encoded", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const repair = await storage.getFrmRepair(id);
+      
+      if (!repair || !repair.encodedData) {
+        return res.status(404).json({ error: "Encoded D-Flash not found" });
+      }
 
-// D-Flash analysis function
-async function analyzeDFlash(data: Buffer): Promise<any> {
-  try {
-    // Check for FRM type based on data patterns
-    const frmType = detectFrmType(data);
-    
-    // Extract vehicle data from D-Flash
-    const vehicleData = extractVehicleData(data, frmType);
-    
-    // Calculate corruption level
-    const corruptionAnalysis = analyzeCorruption(data);
-    
-    return {
-      corruptionLevel: corruptionAnalysis.corruptionLevel,
-      recoverableSectors: corruptionAnalysis.recoverableSectors,
-      totalSectors: 32, // 32KB = 32 sectors of 1KB each
-      vehicleData: {
-        ...vehicleData,
-        frmType,
-      },
-      configurationData: extractConfigurationData(data),
-    };
-  } catch (error) {
-    console.error("Analysis error:", error);
-    throw new Error("Failed to analyze D-Flash data");
-  }
-}
+      const format = req.query.format ?? 'bin';
+      if (!isExportFormat(format)) {
+        return res.status(400).json({ 
+          error: `Unsupported download format "${format}". Use one of: ${Object.keys(EXPORT_FORMATS).join(', ')}` 
+        });
+      }
 
-// D-Flash to EEPROM conversion function
-async function convertDFlashToEEPROM(dflashData: Buffer): Promise<{success: boolean, eepromData?: Buffer, error?: string}> {
-  try {
-    // Initialize 4KB EEPROM buffer
-    const eepromData = Buffer.alloc(4096);
-    
-    // Extract VIN from D-Flash
-    const vin = extractVin(dflashData);
-    if (vin) {
-      // Write VIN to EEPROM at standard offset (0x10)
-      eepromData.write(vin, 0x10, 'ascii');
-    }
-    
-    // Extract mileage from D-Flash
-    const mileage = extractMileage(dflashData);
-    if (mileage !== null) {
-      // Write mileage to EEPROM at standard offset (0x30)
-      eepromData.writeUInt32LE(mileage, 0x30);
-    }
-    
-    // Extract configuration data
-    const config = extractConfigurationFromDFlash(dflashData);
-    if (config) {
-      // Write configuration to EEPROM starting at offset 0x100
-      const configBuffer = Buffer.from(JSON.stringify(config));
-      configBuffer.copy(eepromData, 0x100, 0, Math.min(configBuffer.length, 1024));
+      const { extension, contentType } = EXPORT_FORMATS[format];
+      const basename = repair.filename.replace(/\.[^.]+$/, '');
+      const body = Buffer.from(encodeExport(repair.encodedData, format, `${basename}_dflash`));
+      
+      res.setHeader('Content-Type', contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${basename}_dflash${extension}"`);
+      res.setHeader('Content-Length', body.length);
+      
+      res.send(body);
+
+    } catch (error: any) {
+      console.error("Encoded download error:", error);
+      res.status(500).json({ error: error.message || "Failed to download D-Flash" });
     }
-    
-    // Calculate and write checksums
-    calculateEepromChecksums(eepromData);
-    
-    return {
-      success: true,
-      eepromData,
-    };
-  } catch (error: any) {
-    console.error("Conversion error:", error);
-    return {
-      success: false,
-      error: error.message || "Failed to convert D-Flash to EEPROM",
-    };
-  }
-}
+  });
 
-// Helper functions for FRM data processing
-function detectFrmType(data: Buffer): string {
-  // Look for specific patterns that identify FRM variants
-  const signature1 = data.subarray(0x100, 0x110);
-  const signature2 = data.subarray(0x200, 0x210);
-  
-  if (signature1.includes(Buffer.from("XEQ384", "ascii"))) {
-    return "FRM3 XEQ384";
-  } else if (signature1.includes(Buffer.from("XET512", "ascii"))) {
-    return "FRM3 XET512";
-  } else if (data.length === 32768) {
-    return "FRM3 Unknown";
-  } else {
-    return "FRM2";
-  }
-}
+  // Download the uploaded file as received (e.g. the full-chip image)
+  app.get("/api/frm/:id/source", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const repair = await storage.getFrmRepair(id);
+      
+      if (!repair || !repair.sourceData) {
+        return res.status(404).json({ error: "Source file not found" });
+      }
 
-function extractVehicleData(data: Buffer, frmType: string): any {
-  return {
-    vin: extractVin(data),
-    model: extractModel(data),
-    year: extractYear(data),
-    mileage: extractMileage(data),
-  };
-}
+      res.setHeader('Content-Type', 'application/octet-stream');
+      res.setHeader('Content-Disposition', `attachment; filename="${repair.filename}"`);
+      res.setHeader('Content-Length', repair.sourceData.length);
+      
+      res.send(Buffer.from(repair.sourceData));
 
-function extractVin(data: Buffer): string | null {
-  // VIN is typically stored at offset 0x1000-0x1010 in D-Flash
-  for (let offset = 0x1000; offset < 0x2000; offset += 16) {
-    const potential = data.subarray(offset, offset + 17).toString('ascii');
-    if (/^[A-HJ-NPR-Z0-9]{17}$/.test(potential)) {
-      return potential;
+    } catch (error: any) {
+      console.error("Source download error:", error);
+      res.status(500).json({ error: error.message || "Failed to download source file" });
     }
-  }
-  return null;
-}
+  });
 
-function extractModel(data: Buffer): string | null {
-  // Model info is usually near VIN data
-  const vin = extractVin(data);
-  if (vin) {
-    const wmi = vin.substring(0, 3);
-    const vds = vin.substring(3, 8);
-    
-    if (wmi === "WBA") return "BMW 3 Series";
-    if (wmi === "WBY") return "BMW X3";
-    if (wmi === "5UX") return "BMW X3 US";
-  }
-  return null;
-}
+  // Raw bytes of a memory region for the hex view (EEPROM is replayed from the D-Flash)
+  app.get("/api/frm/:id/region/:region", async (req, res) => {
+    try {
+      const { id, region } = req.params;
+      const repair = await storage.getFrmRepair(id);
+      
+      if (!repair || !repair.originalData) {
+        return res.status(404).json({ error: "Repair not found" });
+      }
 
-function extractYear(data: Buffer): number | null {
-  const vin = extractVin(data);
-  if (vin) {
-    const yearChar = vin.charAt(9);
-    const yearMap: { [key: string]: number } = {
-      '1': 2001, '2': 2002, '3': 2003, '4': 2004, '5': 2005,
-      '6': 2006, '7': 2007, '8': 2008, '9': 2009, 'A': 2010,
-      'B': 2011, 'C': 2012, 'D': 2013, 'E': 2014, 'F': 2015,
-    };
-    return yearMap[yearChar] || null;
-  }
-  return null;
-}
+      const original = Buffer.from(repair.originalData);
+      let data: Uint8Array;
+      if (region === 'eeprom') {
+        data = repair.inputKind === 'eeprom' ? original : parseDFlash(original, repair.frmType).replay.image;
+      } else if (region === 'dflash' && repair.inputKind !== 'eeprom') {
+        data = original;
+      } else {
+        return res.status(404).json({ error: `Region "${region}" not available for this repair` });
+      }
+
+      res.setHeader('Content-Type', 'application/octet-stream');
+      res.setHeader('Content-Length', data.length);
+      res.send(Buffer.from(data));
 
-function extractMileage(data: Buffer): number | null {
-  // Mileage is typically stored as a 32-bit value
-  for (let offset = 0x2000; offset < 0x3000; offset += 4) {
-    const value = data.readUInt32LE(offset);
-    if (value > 0 && value < 1000000) { // Reasonable mileage range
-      return value;
+    } catch (error: any) {
+      console.error("Region error:", error);
+      res.status(500).json({ error: error.message || "Failed to read memory region" });
     }
-  }
-  return null;
-}
+  });
 
-function extractConfigurationData(data: Buffer): any {
-  return {
-    xenonHeadlights: (data[0x500] & 0x01) !== 0,
-    angelEyes: (data[0x500] & 0x02) !== 0,
-    autoWipers: (data[0x501] & 0x01) !== 0,
-    comfortAccess: (data[0x501] & 0x02) !== 0,
-    followMeHome: data[0x502] || 0,
-  };
-}
+  // Get repair status
+  app.get("/api/frm/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const repair = await storage.getFrmRepair(id);
+      
+      if (!repair) {
+        return res.status(404).json({ error: "Repair not found" });
+      }
 
-function extractConfigurationFromDFlash(data: Buffer): any {
-  return extractConfigurationData(data);
-}
+      res.json({
+        id: repair.id,
+        filename: repair.filename,
+        fileSize: repair.fileSize,
+        frmType: repair.frmType,
+        inputKind: repair.inputKind,
+        vin: repair.vin,
+        mileage: repair.mileage,
+        mileageUnit: repair.mileageUnit,
+        codingOverrides: repair.codingOverrides ? JSON.parse(repair.codingOverrides) : {},
+        repairStatus: repair.repairStatus,
+        analysisData: repair.analysisData ? JSON.parse(repair.analysisData) : null,
+        createdAt: repair.createdAt,
+      });
 
-function analyzeCorruption(data: Buffer): { corruptionLevel: number, recoverableSectors: number } {
-  let corruptedBytes = 0;
-  let recoverableSectors = 0;
-  
-  // Analyze in 1KB sectors
-  for (let sector = 0; sector < 32; sector++) {
-    const start = sector * 1024;
-    const end = start + 1024;
-    const sectorData = data.subarray(start, end);
-    
-    // Check for empty sectors (all 0xFF or 0x00)
-    const allFF = sectorData.every(byte => byte === 0xFF);
-    const all00 = sectorData.every(byte => byte === 0x00);
-    
-    if (allFF || all00) {
-      corruptedBytes += 1024;
-    } else {
-      recoverableSectors++;
+    } catch (error: any) {
+      console.error("Status error:", error);
+      res.status(500).json({ error: error.message || "Failed to get repair status" });
     }
-  }
-  
-  const corruptionLevel = (corruptedBytes / data.length) * 100;
-  
-  return {
-    corruptionLevel: Math.round(100 - corruptionLevel), // Invert to show recovery percentage
-    recoverableSectors,
-  };
-}
+  });
 
-function calculateEepromChecksums(eepromData: Buffer): void {
-  // Calculate simple checksum for EEPROM integrity
-  let checksum = 0;
-  for (let i = 0; i < eepromData.length - 4; i++) {
-    checksum += eepromData[i];
-  }
-  
-  // Write checksum to last 4 bytes
-  eepromData.writeUInt32LE(checksum & 0xFFFFFFFF, eepromData.length - 4);
+  const httpServer = createServer(app);
+  return httpServer;
 }
@@ -0,0 +1,143 @@
+// Block checksums
+// The FRM firmware checks each EEPROM block on start-up and falls back to
+// defaults (or the redundant copy) when a block fails. Which scheme a block
+// uses and where its checksum sits comes from the layout registry:
+//   crc16-ccitt  CRC-16/CCITT-FALSE (poly 0x1021, init 0xFFFF), big-endian
+//   sum8         8-bit sum that makes the block including the checksum add
+//                up to zero, used by FRM2 header blocks
+// Redundant pairs also carry a copy marker so the firmware can tell the
+// primary block from its copy.
+
+import type { ChecksumAlgorithm, ChecksumBlock, FrmLayout } from "./layouts";
+
+export type BlockChecksumStatus = 'valid' | 'invalid' | 'erased' | 'unchecked';
+
+export interface BlockChecksumResult {
+  id: string;
+  label: string;
+  start: number;
+  end: number;
+  algorithm?: ChecksumAlgorithm;
+  checksumOffset?: number;
+  stored?: number;
+  computed?: number;
+  markerValid?: boolean; // only for blocks with a copy marker
+  status: BlockChecksumStatus;
+}
+
+export const CHECKSUM_STATUS_LABELS: Record<BlockChecksumStatus, string> = {
+  valid: 'Valid',
+  invalid: 'Invalid',
+  erased: 'Erased',
+  unchecked: 'No block checksum',
+};
+
+const CHECKSUM_LENGTHS: Record<ChecksumAlgorithm, number> = {
+  'crc16-ccitt': 2,
+  'sum8': 1,
+};
+
+export function crc16Ccitt(data: Uint8Array): number {
+  let crc = 0xFFFF;
+  for (let i = 0; i < data.length; i++) {
+    crc ^= data[i] << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xFFFF : (crc << 1) & 0xFFFF;
+    }
+  }
+  return crc;
+}
+
+export function sum8(data: Uint8Array): number {
+  let sum = 0;
+  for (let i = 0; i < data.length; i++) {
+    sum = (sum + data[i]) & 0xFF;
+  }
+  return (0x100 - sum) & 0xFF;
+}
+
+export function formatChecksum(value: number, algorithm: ChecksumAlgorithm): string {
+  return `0x${value.toString(16).toUpperCase().padStart(CHECKSUM_LENGTHS[algorithm] * 2, '0')}`;
+}
+
+function readChecksum(eeprom: Uint8Array, offset: number, algorithm: ChecksumAlgorithm): number {
+  return algorithm === 'sum8' ? eeprom[offset] : (eeprom[offset] << 8) | eeprom[offset + 1];
+}
+
+/**
+ * Checksum over the block data from its start up to the checksum itself,
+ * with the copy marker set as the firmware would write it
+ */
+export function computeBlockChecksum(eeprom: Uint8Array, block: ChecksumBlock): number | undefined {
+  if (!block.checksum) return undefined;
+
+  const data = new Uint8Array(eeprom.subarray(block.start, block.checksum.offset));
+  if (block.copyMarker) {
+    data[block.copyMarker.offset - block.start] = block.copyMarker.value;
+  }
+  return block.checksum.algorithm === 'sum8' ? sum8(data) : crc16Ccitt(data);
+}
+
+export function isBlockErased(eeprom: Uint8Array, block: ChecksumBlock): boolean {
+  return eeprom.subarray(block.start, block.end).every(byte => byte === 0xFF);
+}
+
+export function verifyBlock(eeprom: Uint8Array, block: ChecksumBlock): BlockChecksumResult {
+  const result: BlockChecksumResult = { id: block.id, label: block.label, start: block.start, end: block.end, status: 'unchecked' };
+  if (!block.checksum) return result;
+
+  result.algorithm = block.checksum.algorithm;
+  result.checksumOffset = block.checksum.offset;
+  if (isBlockErased(eeprom, block)) return { ...result, status: 'erased' };
+
+  const stored = readChecksum(eeprom, block.checksum.offset, block.checksum.algorithm);
+  const computed = computeBlockChecksum(eeprom, block)!;
+  const markerValid = block.copyMarker ? eeprom[block.copyMarker.offset] === block.copyMarker.value : undefined;
+
+  return {
+    ...result,
+    stored,
+    computed,
+    markerValid,
+    status: stored === computed && markerValid !== false ? 'valid' : 'invalid',
+  };
+}
+
+/**
+ * Checks every EEPROM block of the layout. Works on any image of the
+ * layout's size: uploaded, generated or replayed from the EEE.
+ */
+export function verifyChecksums(eeprom: Uint8Array, layout: FrmLayout): BlockChecksumResult[] {
+  return layout.checksumBlocks
+    .filter(block => block.region === 'eeprom' && block.end <= eeprom.length)
+    .map(block => verifyBlock(eeprom, block));
+}
+
+/**
+ * Writes copy markers and checksums into the blocks that hold data, so the
+ * firmware accepts the image. Erased blocks stay erased. Limit the update to
+ * `blockIds` to leave untouched blocks exactly as they were read.
+ * Returns the ids of the blocks written.
+ */
+export function writeChecksums(eeprom: Uint8Array, layout: FrmLayout, blockIds?: string[]): string[] {
+  const written: string[] = [];
+
+  for (const block of layout.checksumBlocks) {
+    if (block.region !== 'eeprom' || !block.checksum || block.end > eeprom.length) continue;
+    if (blockIds && !blockIds.includes(block.id)) continue;
+    if (isBlockErased(eeprom, block)) continue;
+
+    if (block.copyMarker) {
+      eeprom[block.copyMarker.offset] = block.copyMarker.value;
+    }
+    const checksum = computeBlockChecksum(eeprom, block)!;
+    if (block.checksum.algorithm === 'sum8') {
+      eeprom[block.checksum.offset] = checksum;
+    } else {
+      eeprom[block.checksum.offset] = checksum >> 8;
+      eeprom[block.checksum.offset + 1] = checksum & 0xFF;
+    }
+    written.push(block.id);
+  }
+  return written;
+}
@@ -0,0 +1,197 @@
+// Coding block decoder
+// Turns the per-variant coding fields of the layout registry into typed,
+// named parameters with their allowed range, so callers never have to know
+// which byte or bit a function lives in.
+
+import { getField, getFieldsByGroup, readField, writeField, type CodingCategory, type FieldValue, type FrmLayout, type LayoutField, type MemoryRegion, type RegionData } from "./layouts";
+
+export type CodingValueType = 'boolean' | 'number' | 'enum';
+
+export interface CodingOption {
+  value: number;
+  label: string;
+}
+
+export interface CodingParameter {
+  id: string;
+  label: string;
+  category: CodingCategory;
+  type: CodingValueType;
+  value: boolean | number;
+  display: string; // value as shown to the user, with unit or option name
+  unit?: string;
+  range?: { min: number; max: number };
+  options?: CodingOption[];
+  valid: boolean; // value lies within the allowed range or options
+  region: MemoryRegion;
+  offset: number;
+  bit?: number;
+}
+
+// Values set by the technician, applied over the decoded coding on conversion
+export type CodingOverrides = Record<string, boolean | number>;
+
+export interface CodingChange {
+  id: string;
+  label: string;
+  before?: string; // undefined when the field was never programmed
+  after: string;
+}
+
+type CodingConstraint = Pick<CodingParameter, 'type' | 'range' | 'options'>;
+
+export const CODING_CATEGORY_LABELS: Record<CodingCategory, string> = {
+  general: 'General',
+  lamps: 'Lamp outputs',
+  monitoring: 'Lamp monitoring',
+  trailer: 'Trailer module',
+  comfort: 'Mirrors, windows & comfort',
+};
+
+export function codingValueType(field: LayoutField): CodingValueType {
+  if (field.encoding === 'bitfield') return 'boolean';
+  return field.options ? 'enum' : 'number';
+}
+
+/**
+ * Allowed range of a numeric field: the declared min/max, otherwise what
+ * the field's byte width can hold
+ */
+export function codingRange(field: LayoutField): { min: number; max: number } | undefined {
+  if (codingValueType(field) !== 'number') return undefined;
+  return { min: field.min ?? 0, max: field.max ?? 256 ** field.length - 1 };
+}
+
+export function codingOptions(field: LayoutField): CodingOption[] | undefined {
+  if (!field.options) return undefined;
+  return Object.entries(field.options).map(([value, label]) => ({ value: Number(value), label }));
+}
+
+/**
+ * Checks a value against a parameter's type and allowed range or options.
+ * Shared by the decoder, the override validation and the coding editor.
+ */
+export function isAllowedCodingValue(constraint: CodingConstraint, value: unknown): boolean {
+  switch (constraint.type) {
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'enum':
+      return typeof value === 'number' && (constraint.options ?? []).some(option => option.value === value);
+    case 'number':
+      return typeof value === 'number' && Number.isInteger(value) &&
+        constraint.range !== undefined && value >= constraint.range.min && value <= constraint.range.max;
+  }
+}
+
+export function isValidCodingValue(field: LayoutField, value: FieldValue): boolean {
+  return isAllowedCodingValue({ type: codingValueType(field), range: codingRange(field), options: codingOptions(field) }, value);
+}
+
+export function formatParameterValue(parameter: Pick<CodingParameter, 'type' | 'options' | 'unit'>, value: FieldValue): string {
+  switch (parameter.type) {
+    case 'boolean':
+      return value ? 'Enabled' : 'Disabled';
+    case 'enum':
+      return parameter.options?.find(option => option.value === value)?.label ?? `Unknown (${value})`;
+    case 'number':
+      return parameter.unit ? `${value} ${parameter.unit}` : String(value);
+  }
+}
+
+export function formatCodingValue(field: LayoutField, value: FieldValue): string {
+  return formatParameterValue({ type: codingValueType(field), options: codingOptions(field), unit: field.unit }, value);
+}
+
+/**
+ * Every coding parameter the variant defines that holds a programmed value
+ */
+export function decodeCoding(regions: RegionData, layout: FrmLayout): CodingParameter[] {
+  const parameters: CodingParameter[] = [];
+
+  for (const field of getFieldsByGroup(layout, 'coding')) {
+    const value = readField(field, regions);
+    if (typeof value !== 'boolean' && typeof value !== 'number') continue;
+
+    parameters.push({
+      id: field.id,
+      label: field.label,
+      category: field.category ?? 'general',
+      type: codingValueType(field),
+      value,
+      display: formatCodingValue(field, value),
+      unit: field.unit,
+      range: codingRange(field),
+      options: codingOptions(field),
+      valid: isValidCodingValue(field, value),
+      region: field.region,
+      offset: field.offset,
+      bit: field.bit,
+    });
+  }
+  return parameters;
+}
+
+export function codingValues(parameters: CodingParameter[]): Record<string, FieldValue> {
+  return Object.fromEntries(parameters.map(parameter => [parameter.id, parameter.value]));
+}
+
+/**
+ * One message per override that names an unknown parameter or holds a value
+ * the parameter does not allow
+ */
+export function validateCodingOverrides(layout: FrmLayout, overrides: CodingOverrides): string[] {
+  const errors: string[] = [];
+  for (const [id, value] of Object.entries(overrides)) {
+    const field = getField(layout, id);
+    if (!field || field.group !== 'coding') {
+      errors.push(`Unknown coding parameter "${id}" for ${layout.variant}`);
+    } else if (!isValidCodingValue(field, value)) {
+      errors.push(`${field.label}: ${value} is not an allowed value`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Writes the overrides into an EEPROM image and reports what changed.
+ * Overrides equal to the stored value produce no change entry. Setting a
+ * flag in an unprogrammed bitfield byte programs the whole byte, so the
+ * flags sharing it are reported as changed too.
+ */
+export function applyCodingOverrides(eeprom: Uint8Array, layout: FrmLayout, overrides: CodingOverrides): CodingChange[] {
+  const changes: CodingChange[] = [];
+  const original = eeprom.slice();
+
+  for (const [id, value] of Object.entries(overrides)) {
+    const field = getField(layout, id);
+    if (!field || field.group !== 'coding' || field.region !== 'eeprom') continue;
+
+    const before = readField(field, { eeprom: original });
+    if (before === value) continue;
+
+    // Unprogrammed bytes read as 0xFF; clear them before setting single bits
+    if (field.encoding === 'bitfield' && readField(field, { eeprom }) === undefined) {
+      eeprom[field.offset] = 0x00;
+      const siblings = getFieldsByGroup(layout, 'coding').filter(other =>
+        other.id !== field.id && other.encoding === 'bitfield' && other.region === field.region &&
+        other.offset === field.offset && !(other.id in overrides)
+      );
+      for (const sibling of siblings) {
+        changes.push({
+          id: sibling.id,
+          label: sibling.label,
+          before: undefined,
+          after: formatCodingValue(sibling, readField(sibling, { eeprom })!),
+        });
+      }
+    }
+    writeField(field, eeprom, value);
+    changes.push({
+      id,
+      label: field.label,
+      before: before === undefined ? undefined : formatCodingValue(field, before),
+      after: formatCodingValue(field, value),
+    });
+  }
+  return changes;
+}
@@ -0,0 +1,127 @@
+// Full-chip dump slicing
+// Many programmers read the whole MC9S12XE (P-Flash + D-Flash + EEE RAM) in
+// one go. This locates the 32KB D-Flash inside such images, first by the
+// chip's address map and then by scanning for EEE sector headers.
+
+import { DFLASH_SIZE, EEE_RAM_SIZE, EEE_SECTOR_COUNT, hasEeeHeader } from "./eee";
+import { sliceImage } from "./intel-hex";
+import type { DecodedDump } from "./file-formats";
+
+// S12XE global memory map
+export const DFLASH_GLOBAL_BASE = 0x100000;
+export const PFLASH_GLOBAL_END = 0x800000;
+
+export type ImageKind = 'dflash' | 'full-chip' | 'pflash-dflash' | 'dflash-pflash' | 'unknown';
+
+export type SliceMethod = 'whole-file' | 'address-map' | 'signature';
+
+export interface DFlashSlice {
+  data: Uint8Array;
+  imageKind: ImageKind;
+  method: SliceMethod;
+  offset: number; // offset (binary) or global address (addressed image) of the D-Flash
+  mcu?: string;
+  eeeHeaders: number; // sectors in the slice carrying a valid EEE header
+}
+
+interface CompositeLayout {
+  kind: ImageKind;
+  mcu: string;
+  size: number;
+  dflashOffset: number;
+}
+
+const PFLASH_SIZES: Record<string, number> = {
+  'MC9S12XEQ384': 384 * 1024,
+  'MC9S12XET512': 512 * 1024,
+};
+
+// Binary layouts written by common programmers, keyed by total file size
+const COMPOSITE_LAYOUTS: CompositeLayout[] = Object.entries(PFLASH_SIZES).flatMap(([mcu, pflashSize]) => [
+  { kind: 'full-chip' as const, mcu, size: pflashSize + DFLASH_SIZE + EEE_RAM_SIZE, dflashOffset: pflashSize },
+  { kind: 'pflash-dflash' as const, mcu, size: pflashSize + DFLASH_SIZE, dflashOffset: pflashSize },
+  { kind: 'dflash-pflash' as const, mcu, size: DFLASH_SIZE + pflashSize, dflashOffset: 0 },
+]);
+
+// Fewer headers than this is indistinguishable from code or erased flash
+const MIN_SIGNATURE_HEADERS = 2;
+
+export function countEeeHeaders(dflash: Uint8Array): number {
+  let count = 0;
+  for (let index = 0; index < EEE_SECTOR_COUNT; index++) {
+    if (hasEeeHeader(dflash, index)) count++;
+  }
+  return count;
+}
+
+function binarySlice(data: Uint8Array, offset: number, kind: ImageKind, method: SliceMethod, mcu?: string): DFlashSlice {
+  const slice = data.subarray(offset, offset + DFLASH_SIZE);
+  return { data: slice, imageKind: kind, method, offset, mcu, eeeHeaders: countEeeHeaders(slice) };
+}
+
+/**
+ * Scans 32KB-aligned windows for the densest run of EEE sector headers
+ */
+function scanForDFlash(data: Uint8Array): { offset: number; headers: number } | null {
+  let best: { offset: number; headers: number } | null = null;
+
+  for (let offset = 0; offset + DFLASH_SIZE <= data.length; offset += DFLASH_SIZE) {
+    const headers = countEeeHeaders(data.subarray(offset, offset + DFLASH_SIZE));
+    if (headers >= MIN_SIGNATURE_HEADERS && (!best || headers > best.headers)) {
+      best = { offset, headers };
+    }
+  }
+  return best;
+}
+
+function locateInAddressedImage(decoded: DecodedDump): DFlashSlice | null {
+  const { data, baseAddress } = decoded;
+  const endAddress = baseAddress + data.length;
+
+  // Global addressing: D-Flash lives at 0x100000-0x107FFF
+  if (baseAddress < DFLASH_GLOBAL_BASE + DFLASH_SIZE && endAddress > DFLASH_GLOBAL_BASE && data.length > DFLASH_SIZE) {
+    const slice = sliceImage(decoded, DFLASH_GLOBAL_BASE, DFLASH_SIZE);
+    return { data: slice, imageKind: 'full-chip', method: 'address-map', offset: DFLASH_GLOBAL_BASE, eeeHeaders: countEeeHeaders(slice) };
+  }
+
+  // D-Flash only: windows are 32KB aligned, so a container that omits erased
+  // lines at either end is padded back to full size
+  const windowStart = baseAddress - (baseAddress % DFLASH_SIZE);
+  if (endAddress <= windowStart + DFLASH_SIZE) {
+    const slice = sliceImage(decoded, windowStart, DFLASH_SIZE);
+    return { data: slice, imageKind: 'dflash', method: 'address-map', offset: windowStart, eeeHeaders: countEeeHeaders(slice) };
+  }
+
+  return null;
+}
+
+/**
+ * Finds the 32KB D-Flash in a decoded upload. Returns null when the file is
+ * neither a D-Flash dump nor a recognisable chip image.
+ */
+export function locateDFlash(decoded: DecodedDump): DFlashSlice | null {
+  const { data } = decoded;
+
+  if (decoded.format !== 'binary') {
+    const slice = locateInAddressedImage(decoded);
+    if (slice) return slice;
+  } else if (data.length === DFLASH_SIZE) {
+    return binarySlice(data, 0, 'dflash', 'whole-file');
+  }
+
+  // Known programmer layouts; same-size layouts are told apart by headers
+  const candidates = COMPOSITE_LAYOUTS
+    .filter(layout => layout.size === data.length)
+    .map(layout => binarySlice(data, layout.dflashOffset, layout.kind, 'address-map', layout.mcu))
+    .sort((a, b) => b.eeeHeaders - a.eeeHeaders);
+  if (candidates.length > 0) {
+    return candidates[0];
+  }
+
+  const found = scanForDFlash(data);
+  if (found) {
+    return binarySlice(data, found.offset, 'unknown', 'signature');
+  }
+
+  return null;
+}
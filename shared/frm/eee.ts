@@ -0,0 +1,301 @@
+// MC9S12XE emulated EEPROM (EEE) record decoding
+// The FTM firmware never stores the 4KB buffer RAM as a flat image: every
+// word write is appended to the D-Flash as a tagged record, and on reset the
+// firmware replays the active sectors in write order to rebuild the RAM.
+
+export const DFLASH_SIZE = 32768; // 32KB D-Flash
+export const EEE_RAM_SIZE = 4096; // 4KB EEE buffer RAM
+export const EEE_SECTOR_SIZE = 1024;
+export const EEE_SECTOR_COUNT = DFLASH_SIZE / EEE_SECTOR_SIZE;
+export const EEE_HEADER_SIZE = 8;
+export const EEE_RECORD_SIZE = 4;
+
+// Sector state markers (first header word). Flash can only clear bits, so each
+// state is reachable from the previous one by programming more zeros.
+export const SECTOR_MARKER_ERASED = 0xFFFF;
+export const SECTOR_MARKER_READY = 0xFF5A;
+export const SECTOR_MARKER_ACTIVE = 0x5A5A;
+
+const RECORDS_PER_SECTOR = (EEE_SECTOR_SIZE - EEE_HEADER_SIZE) / EEE_RECORD_SIZE;
+
+const HEADER_CHECK_SEED = 0xA55A;
+const RECORD_PROGRAMMED_FLAG = 0x8000; // cleared once the record is written
+const RECORD_CHECK_MASK = 0x7800;
+const RECORD_ADDRESS_MASK = 0x07FF;
+
+export type EeeSectorState = 'active' | 'erased' | 'ready' | 'invalid';
+
+export interface EeeRecord {
+  sector: number;
+  offset: number; // absolute D-Flash offset of the record
+  wordIndex: number; // 16-bit word index in EEE RAM
+  value: number;
+}
+
+export interface EeeSector {
+  index: number;
+  offset: number;
+  state: EeeSectorState;
+  eraseCount: number | null;
+  sequence: number | null;
+  validRecords: number;
+  brokenRecords: number;
+  records: EeeRecord[];
+}
+
+export interface EeePartition {
+  firstSector: number;
+  sectorCount: number;
+}
+
+export interface EeeEncodeOptions {
+  eraseCount?: number;
+  firstSequence?: number;
+}
+
+export interface EeeReplayResult {
+  image: Uint8Array;
+  sectors: EeeSector[];
+  validRecords: number;
+  brokenRecords: number;
+  writtenWords: number;
+}
+
+function readWord(data: Uint8Array, offset: number): number {
+  return (data[offset] << 8) | data[offset + 1];
+}
+
+function writeWord(data: Uint8Array, offset: number, value: number): void {
+  data[offset] = (value >> 8) & 0xFF;
+  data[offset + 1] = value & 0xFF;
+}
+
+/**
+ * Check nibble stored in record tag bits 14..11: XOR of all nibbles of the
+ * word address and data value
+ */
+export function recordCheckNibble(wordIndex: number, value: number): number {
+  let check = 0;
+  for (let shift = 0; shift < 16; shift += 4) {
+    check ^= (value >> shift) & 0xF;
+    check ^= (wordIndex >> shift) & 0xF;
+  }
+  return check;
+}
+
+/**
+ * Header check word covering erase count and sequence number
+ */
+export function sectorHeaderCheck(eraseCount: number, sequence: number): number {
+  return (eraseCount ^ sequence ^ HEADER_CHECK_SEED) & 0xFFFF;
+}
+
+function isErased(data: Uint8Array, start: number, end: number): boolean {
+  for (let i = start; i < end; i++) {
+    if (data[i] !== 0xFF) return false;
+  }
+  return true;
+}
+
+/**
+ * Whether the sector at the given index starts with a well-formed ready or
+ * active header. Cheap enough to scan large images for the D-Flash.
+ */
+export function hasEeeHeader(data: Uint8Array, index: number): boolean {
+  const offset = index * EEE_SECTOR_SIZE;
+  if (offset + EEE_HEADER_SIZE > data.length) return false;
+
+  const marker = readWord(data, offset);
+  if (marker === SECTOR_MARKER_READY) {
+    return readWord(data, offset + 4) === 0xFFFF && readWord(data, offset + 6) === 0xFFFF;
+  }
+  return marker === SECTOR_MARKER_ACTIVE &&
+    readWord(data, offset + 6) === sectorHeaderCheck(readWord(data, offset + 2), readWord(data, offset + 4));
+}
+
+/**
+ * Decodes a single D-Flash sector: header state and every record slot
+ */
+export function parseEeeSector(data: Uint8Array, index: number): EeeSector {
+  const offset = index * EEE_SECTOR_SIZE;
+  const end = offset + EEE_SECTOR_SIZE;
+  const sector: EeeSector = {
+    index,
+    offset,
+    state: 'invalid',
+    eraseCount: null,
+    sequence: null,
+    validRecords: 0,
+    brokenRecords: 0,
+    records: [],
+  };
+
+  if (isErased(data, offset, end)) {
+    sector.state = 'erased';
+    return sector;
+  }
+
+  const marker = readWord(data, offset);
+  const eraseCount = readWord(data, offset + 2);
+  const sequence = readWord(data, offset + 4);
+  const headerCheck = readWord(data, offset + 6);
+
+  if (marker === SECTOR_MARKER_READY) {
+    // Formatted but never activated: only the erase count is programmed
+    sector.eraseCount = eraseCount;
+    sector.state = isErased(data, offset + 4, end) ? 'ready' : 'invalid';
+    return sector;
+  }
+
+  if (marker !== SECTOR_MARKER_ACTIVE || headerCheck !== sectorHeaderCheck(eraseCount, sequence)) {
+    return sector;
+  }
+
+  sector.state = 'active';
+  sector.eraseCount = eraseCount;
+  sector.sequence = sequence;
+
+  for (let pos = offset + EEE_HEADER_SIZE; pos + EEE_RECORD_SIZE <= end; pos += EEE_RECORD_SIZE) {
+    const tag = readWord(data, pos);
+    const value = readWord(data, pos + 2);
+
+    if (tag === 0xFFFF && value === 0xFFFF) {
+      continue; // Unused slot
+    }
+
+    const wordIndex = tag & RECORD_ADDRESS_MASK;
+    const check = (tag & RECORD_CHECK_MASK) >> 11;
+    const programmed = (tag & RECORD_PROGRAMMED_FLAG) === 0;
+
+    if (programmed && check === recordCheckNibble(wordIndex, value)) {
+      sector.records.push({ sector: index, offset: pos, wordIndex, value });
+      sector.validRecords++;
+    } else {
+      // Interrupted write or bit rot - the firmware skips these on replay
+      sector.brokenRecords++;
+    }
+  }
+
+  return sector;
+}
+
+/**
+ * Orders items by a 16-bit sequence number, tolerating wrap-around: when the
+ * numbers lie more than half the range apart, the low ones were written after
+ * the wrap. Items with equal numbers keep their order.
+ */
+export function orderBySequence<T>(items: T[], sequenceOf: (item: T) => number): T[] {
+  if (items.length === 0) return [];
+
+  const sequences = items.map(sequenceOf);
+  const wraps = Math.max(...sequences) - Math.min(...sequences) > 0x8000;
+  const key = (item: T) => {
+    const sequence = sequenceOf(item);
+    return wraps && sequence < 0x8000 ? sequence + 0x10000 : sequence;
+  };
+
+  return [...items].sort((a, b) => key(a) - key(b));
+}
+
+function orderActiveSectors(sectors: EeeSector[]): EeeSector[] {
+  return orderBySequence(sectors.filter(sector => sector.state === 'active'), sector => sector.sequence!);
+}
+
+/**
+ * Walks every sector of the EEE partition and replays the records in write
+ * order to rebuild the 4KB buffer RAM image. Words never written stay at 0xFFFF.
+ */
+export function replayEee(
+  dflashData: Uint8Array,
+  partition: EeePartition = { firstSector: 0, sectorCount: EEE_SECTOR_COUNT },
+): EeeReplayResult {
+  if (dflashData.length !== DFLASH_SIZE) {
+    throw new Error(`Invalid D-Flash size. Expected ${DFLASH_SIZE} bytes, got ${dflashData.length} bytes`);
+  }
+
+  const sectors: EeeSector[] = [];
+  const lastSector = Math.min(partition.firstSector + partition.sectorCount, EEE_SECTOR_COUNT);
+  for (let index = partition.firstSector; index < lastSector; index++) {
+    sectors.push(parseEeeSector(dflashData, index));
+  }
+
+  const image = new Uint8Array(EEE_RAM_SIZE).fill(0xFF);
+  const written = new Set<number>();
+
+  for (const sector of orderActiveSectors(sectors)) {
+    for (const record of sector.records) {
+      const address = record.wordIndex * 2;
+      image[address] = record.value >> 8;
+      image[address + 1] = record.value & 0xFF;
+      written.add(record.wordIndex);
+    }
+  }
+
+  return {
+    image,
+    sectors,
+    validRecords: sectors.reduce((sum, sector) => sum + sector.validRecords, 0),
+    brokenRecords: sectors.reduce((sum, sector) => sum + sector.brokenRecords, 0),
+    writtenWords: written.size,
+  };
+}
+
+/**
+ * Lays a 4KB buffer RAM image out as EEE records, the way the FTM firmware
+ * leaves the partition after a clean copy-down: one record per programmed
+ * word in ascending order, the remaining sectors formatted ready. Words still
+ * at 0xFFFF need no record. Sectors outside the partition stay erased.
+ */
+export function encodeEee(
+  image: Uint8Array,
+  partition: EeePartition = { firstSector: 0, sectorCount: EEE_SECTOR_COUNT },
+  options: EeeEncodeOptions = {},
+): Uint8Array {
+  if (image.length !== EEE_RAM_SIZE) {
+    throw new Error(`Invalid EEPROM size. Expected ${EEE_RAM_SIZE} bytes, got ${image.length} bytes`);
+  }
+
+  const words: { wordIndex: number; value: number }[] = [];
+  for (let wordIndex = 0; wordIndex < EEE_RAM_SIZE / 2; wordIndex++) {
+    const value = readWord(image, wordIndex * 2);
+    if (value !== 0xFFFF) {
+      words.push({ wordIndex, value });
+    }
+  }
+
+  // Keep at least one ready sector so the firmware has somewhere to compact into
+  const activeSectors = Math.ceil(words.length / RECORDS_PER_SECTOR);
+  if (activeSectors >= partition.sectorCount) {
+    throw new Error(`EEPROM image needs ${activeSectors + 1} EEE sectors, partition has ${partition.sectorCount}`);
+  }
+
+  const dflash = new Uint8Array(DFLASH_SIZE).fill(0xFF);
+  const eraseCount = options.eraseCount ?? 1;
+  let sequence = options.firstSequence ?? 1;
+
+  for (let i = 0; i < partition.sectorCount; i++) {
+    const offset = (partition.firstSector + i) * EEE_SECTOR_SIZE;
+    const records = words.slice(i * RECORDS_PER_SECTOR, (i + 1) * RECORDS_PER_SECTOR);
+
+    if (records.length === 0) {
+      writeWord(dflash, offset, SECTOR_MARKER_READY);
+      writeWord(dflash, offset + 2, eraseCount);
+      continue;
+    }
+
+    writeWord(dflash, offset, SECTOR_MARKER_ACTIVE);
+    writeWord(dflash, offset + 2, eraseCount);
+    writeWord(dflash, offset + 4, sequence);
+    writeWord(dflash, offset + 6, sectorHeaderCheck(eraseCount, sequence));
+    sequence = (sequence + 1) & 0xFFFF;
+
+    records.forEach((record, slot) => {
+      const pos = offset + EEE_HEADER_SIZE + slot * EEE_RECORD_SIZE;
+      const tag = (recordCheckNibble(record.wordIndex, record.value) << 11) | record.wordIndex;
+      writeWord(dflash, pos, tag & ~RECORD_PROGRAMMED_FLAG);
+      writeWord(dflash, pos + 2, record.value);
+    });
+  }
+
+  return dflash;
+}
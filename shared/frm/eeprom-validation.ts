@@ -0,0 +1,263 @@
+// EEPROM validation and repair
+// A 4KB EEPROM read straight from the module is checked block by block:
+// image sanity, block checksums, VIN copies, coding consistency and erased
+// blocks. Failing blocks come with repair offers: restore the block from its
+// redundant copy when that copy is intact, or recompute its checksum when
+// the data is trusted. Repairs are only ever applied on request and every
+// one of them is recorded in the change log.
+
+import { decodeCoding } from "./coding";
+import { formatChecksum, isBlockErased, verifyBlock, writeChecksums } from "./checksums";
+import { formatOffset, readField, type ChecksumBlock, type FrmLayout } from "./layouts";
+
+export type ValidationStatus = 'pass' | 'warn' | 'fail';
+
+export type ValidationCategory = 'image' | 'checksum' | 'vin' | 'coding' | 'erased';
+
+export type RepairAction = 'restore-from-copy' | 'recompute-checksum';
+
+export interface ValidationCheck {
+  id: string;
+  category: ValidationCategory;
+  label: string;
+  status: ValidationStatus;
+  detail: string;
+  blockId?: string;
+  repairs?: RepairAction[]; // offered fixes, recommended first
+}
+
+export interface EepromValidation {
+  passed: boolean; // no check failed
+  checks: ValidationCheck[];
+}
+
+export interface RepairRequest {
+  blockId: string;
+  action: RepairAction;
+}
+
+export interface RepairChange {
+  blockId: string;
+  label: string;
+  action: RepairAction;
+  detail: string;
+}
+
+export const REPAIR_ACTION_LABELS: Record<RepairAction, string> = {
+  'restore-from-copy': 'Restore from redundant copy',
+  'recompute-checksum': 'Recompute checksum',
+};
+
+const VIN_LENGTH = 17;
+
+/**
+ * The other half of a redundant pair, in either direction
+ */
+function partnerOf(layout: FrmLayout, block: ChecksumBlock): ChecksumBlock | undefined {
+  return layout.checksumBlocks.find(other => other.id === block.copyOf || other.copyOf === block.id);
+}
+
+function repairOffers(eeprom: Uint8Array, layout: FrmLayout, block: ChecksumBlock): RepairAction[] {
+  const offers: RepairAction[] = [];
+  const partner = partnerOf(layout, block);
+  if (partner && verifyBlock(eeprom, partner).status === 'valid') {
+    offers.push('restore-from-copy');
+  }
+  if (block.checksum && !isBlockErased(eeprom, block)) {
+    offers.push('recompute-checksum');
+  }
+  return offers;
+}
+
+function checkImage(eeprom: Uint8Array, layout: FrmLayout): ValidationCheck {
+  const check = { id: 'image', category: 'image' as const, label: 'EEPROM image' };
+  if (eeprom.every(byte => byte === 0x00)) {
+    return { ...check, status: 'fail', detail: 'Every byte reads 0x00; the EEPROM read most likely failed' };
+  }
+  if (eeprom.every(byte => byte === 0xFF)) {
+    return { ...check, status: 'fail', detail: 'The image is blank (all 0xFF)' };
+  }
+  return { ...check, status: 'pass', detail: `${eeprom.length} bytes, ${layout.label} layout` };
+}
+
+function checkBlocks(eeprom: Uint8Array, layout: FrmLayout): ValidationCheck[] {
+  const checks: ValidationCheck[] = [];
+
+  for (const block of layout.checksumBlocks) {
+    if (block.region !== 'eeprom' || block.end > eeprom.length) continue;
+
+    if (isBlockErased(eeprom, block)) {
+      // Blocks holding layout fields are always written by the module
+      const required = layout.fields.some(field => field.checksumBlock === block.id);
+      const offers = repairOffers(eeprom, layout, block);
+      checks.push({
+        id: `erased-${block.id}`,
+        category: 'erased',
+        label: block.label,
+        status: required ? 'fail' : 'warn',
+        detail: required
+          ? `${formatOffset(block.start)}-${formatOffset(block.end - 1)} is erased but should hold data`
+          : `${formatOffset(block.start)}-${formatOffset(block.end - 1)} is erased; the module may never have written it`,
+        blockId: block.id,
+        repairs: offers.length > 0 ? offers : undefined,
+      });
+      continue;
+    }
+
+    const result = verifyBlock(eeprom, block);
+    if (result.status === 'unchecked') continue;
+
+    if (result.status === 'valid') {
+      checks.push({
+        id: `checksum-${block.id}`,
+        category: 'checksum',
+        label: block.label,
+        status: 'pass',
+        detail: `Checksum ${formatChecksum(result.computed!, result.algorithm!)} matches`,
+        blockId: block.id,
+      });
+      continue;
+    }
+
+    const problems: string[] = [];
+    if (result.stored !== result.computed) {
+      problems.push(`stored checksum ${formatChecksum(result.stored!, result.algorithm!)}, computed ${formatChecksum(result.computed!, result.algorithm!)}`);
+    }
+    if (result.markerValid === false) {
+      problems.push('wrong copy marker');
+    }
+    checks.push({
+      id: `checksum-${block.id}`,
+      category: 'checksum',
+      label: block.label,
+      status: 'fail',
+      detail: problems.join('; '),
+      blockId: block.id,
+      repairs: repairOffers(eeprom, layout, block),
+    });
+  }
+  return checks;
+}
+
+function checkVinCopies(eeprom: Uint8Array, layout: FrmLayout): ValidationCheck[] {
+  const copies = layout.fields
+    .filter(field => field.group === 'vehicle' && field.region === 'eeprom' && field.encoding === 'ascii' && field.length === VIN_LENGTH)
+    .map(field => ({ field, value: readField(field, { eeprom }) }));
+  if (copies.length < 2) return [];
+
+  const check = { id: 'vin-copies', category: 'vin' as const, label: 'VIN copies' };
+  const values = new Set(copies.map(copy => copy.value));
+  if (values.size === 1 && typeof copies[0].value === 'string') {
+    return [{ ...check, status: 'pass', detail: `All ${copies.length} copies read ${copies[0].value}` }];
+  }
+
+  const readings = copies
+    .map(copy => `${copy.field.label} ${copy.value ?? 'unreadable'} @ ${formatOffset(copy.field.offset)}`)
+    .join(', ');
+  return [{ ...check, status: 'fail', detail: `Copies disagree: ${readings}` }];
+}
+
+function checkCoding(eeprom: Uint8Array, layout: FrmLayout): ValidationCheck[] {
+  const parameters = decodeCoding({ eeprom }, layout);
+  if (parameters.length === 0) return [];
+
+  const check = { id: 'coding', category: 'coding' as const, label: 'Coding values' };
+  const invalid = parameters.filter(parameter => !parameter.valid);
+  if (invalid.length === 0) {
+    return [{ ...check, status: 'pass', detail: `${parameters.length} parameters within their allowed values` }];
+  }
+  return [{
+    ...check,
+    status: 'warn',
+    detail: `Outside their allowed values: ${invalid.map(parameter => `${parameter.label} (${parameter.value})`).join(', ')}`,
+  }];
+}
+
+export function validateEeprom(eeprom: Uint8Array, layout: FrmLayout): EepromValidation {
+  const checks = [
+    checkImage(eeprom, layout),
+    ...checkBlocks(eeprom, layout),
+    ...checkVinCopies(eeprom, layout),
+    ...checkCoding(eeprom, layout),
+  ];
+  return { passed: checks.every(check => check.status !== 'fail'), checks };
+}
+
+/**
+ * One message per request naming a block that has nothing to repair or an
+ * action that is not offered for it
+ */
+export function validateRepairRequests(eeprom: Uint8Array, layout: FrmLayout, requests: RepairRequest[]): string[] {
+  const offers = new Map<string, RepairAction[]>();
+  for (const check of validateEeprom(eeprom, layout).checks) {
+    if (check.blockId && check.repairs) offers.set(check.blockId, check.repairs);
+  }
+
+  const errors: string[] = [];
+  for (const request of requests) {
+    const offered = offers.get(request.blockId);
+    if (!offered) {
+      errors.push(`Block "${request.blockId}" has no repair to apply`);
+    } else if (!offered.includes(request.action)) {
+      errors.push(`"${request.action}" is not available for block "${request.blockId}"`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Applies the requested repairs in place and reports what changed.
+ * Restores run before checksum recomputation so a restored block is never
+ * recomputed over its damaged content. Requests that do not apply are skipped.
+ */
+export function repairEeprom(eeprom: Uint8Array, layout: FrmLayout, requests: RepairRequest[]): RepairChange[] {
+  const changes: RepairChange[] = [];
+  const ordered = [
+    ...requests.filter(request => request.action === 'restore-from-copy'),
+    ...requests.filter(request => request.action === 'recompute-checksum'),
+  ];
+
+  for (const request of ordered) {
+    const block = layout.checksumBlocks.find(item => item.id === request.blockId);
+    if (!block || block.region !== 'eeprom' || !block.checksum) continue;
+
+    const before = verifyBlock(eeprom, block);
+    if (before.status === 'valid') continue;
+
+    if (request.action === 'restore-from-copy') {
+      const source = partnerOf(layout, block);
+      if (!source?.checksum || verifyBlock(eeprom, source).status !== 'valid') continue;
+
+      eeprom.set(eeprom.slice(source.start, source.checksum.offset), block.start);
+      writeChecksums(eeprom, layout, [block.id]);
+      changes.push({
+        blockId: block.id,
+        label: block.label,
+        action: request.action,
+        detail: `Copied ${formatOffset(source.start)}-${formatOffset(source.checksum.offset - 1)} from ${source.label}`,
+      });
+    } else {
+      if (before.status !== 'invalid') continue;
+
+      const fixes: string[] = [];
+      if (before.stored !== before.computed) {
+        fixes.push(`Checksum ${formatChecksum(before.stored!, before.algorithm!)} replaced by ${formatChecksum(before.computed!, before.algorithm!)}`);
+      }
+      if (before.markerValid === false) {
+        fixes.push('Copy marker rewritten');
+      }
+      writeChecksums(eeprom, layout, [block.id]);
+      changes.push({ blockId: block.id, label: block.label, action: request.action, detail: fixes.join('; ') });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Plain-text change log to keep with the repaired image
+ */
+export function formatRepairLog(changes: RepairChange[]): string {
+  return changes
+    .map(change => `${change.label}: ${REPAIR_ACTION_LABELS[change.action]}. ${change.detail}`)
+    .join('\n') + '\n';
+}
@@ -0,0 +1,816 @@
+// BMW FRM conversion engine shared by the Express routes and the browser
+// Pipeline: parse (EEE replay) -> analyze -> extract -> build -> checksum
+// The reverse path encodes an EEPROM image back into an EEE D-Flash layout.
+
+import type { FrmAnalysis } from "../schema";
+import { DFLASH_SIZE, EEE_SECTOR_SIZE, encodeEee, replayEee, type EeeReplayResult } from "./eee";
+import {
+  getField,
+  formatOffset,
+  getLayout,
+  readField,
+  type FrmLayout,
+  type FrmVariant,
+  type LayoutField,
+  type MemoryRegion,
+  type RegionData,
+  writeField,
+} from "./layouts";
+import { formatChecksum, verifyChecksums, writeChecksums, type BlockChecksumResult } from "./checksums";
+import { FRM_DIAGNOSTIC_ADDRESS, formatDiagnosticAddress, readIdentification } from "./identification";
+import { readLampChannels } from "./lamp-channels";
+import { findOdometerConsensus, type OdometerConsensus } from "./odometer";
+import { analyzeSectorHealth } from "./sector-health";
+import {
+  applyCodingOverrides,
+  codingValues,
+  decodeCoding,
+  type CodingChange,
+  type CodingOverrides,
+  type CodingParameter,
+} from "./coding";
+import { repairEeprom, validateEeprom, type RepairChange, type RepairRequest } from "./eeprom-validation";
+import { detectMileageUnit } from "./units";
+import { detectEepromVariant, detectVariant } from "./variant-detection";
+import { findCodingMismatches, readVehicleOrder } from "./vehicle-order";
+import { decodeVin } from "./vin-decoder";
+
+export interface ParsedDFlash {
+  dflash: Uint8Array;
+  frmType: string;
+  layout: FrmLayout;
+  replay: EeeReplayResult;
+}
+
+// All ratios are 0..1. Null means the metric does not apply to the input
+// (EEPROM images carry no EEE sectors or records).
+export interface IntegrityMetrics {
+  recoverableDataRatio: number; // checksum blocks holding data after replay / all blocks
+  structuralValidity: number | null; // EEE partition sectors not in the invalid state / all partition sectors
+  recordPassRate: number | null; // records passing their check nibble / all programmed records
+  extractionConfidence: number; // EEPROM fields decoding to a plausible value / all EEPROM fields
+}
+
+export interface IntegrityAnalysis {
+  integrity: IntegrityMetrics;
+  recoverableSectors: number; // EEE sectors replayable without broken records
+  totalSectors: number;
+}
+
+export type VehicleData = FrmAnalysis['vehicleData'];
+
+export interface ConversionResult {
+  success: boolean;
+  eepromData?: Uint8Array;
+  checksum?: number;
+  error?: string;
+  vehicleData?: VehicleData;
+  codingChanges?: CodingChange[];
+  blockChecksums?: BlockChecksumResult[]; // verification of the written image
+  repairChanges?: RepairChange[];
+}
+
+export interface ConversionOptions {
+  variant?: string; // layout to convert with, detected when not given
+  codingOverrides?: CodingOverrides;
+  repairs?: RepairRequest[]; // EEPROM input only, see eeprom-validation.ts
+}
+
+export interface RoundTripCheck {
+  passed: boolean; // the replayed D-Flash reproduces the EEPROM word for word
+  mismatchedWords: number;
+  validRecords: number;
+  detectedType: string; // what the forward converter identifies the result as
+}
+
+export interface EncodeResult {
+  success: boolean;
+  dflashData?: Uint8Array;
+  selfCheck?: RoundTripCheck;
+  error?: string;
+}
+
+export interface FieldSource {
+  region: MemoryRegion;
+  offset: number;
+  length: number;
+}
+
+export interface FieldProvenance {
+  sources: FieldSource[]; // every slot holding the reported value
+  copies: number; // slots that agree with the reported value
+  decoder: string;
+  confidence: number; // 0..1
+}
+
+export interface VinCandidate {
+  fieldId: string;
+  source: FieldSource;
+  value: string;
+  kind: 'full' | 'short'; // short VINs are the last 7 characters
+}
+
+export interface VinConsensus {
+  vin?: string;
+  candidates: VinCandidate[];
+  agreeing: VinCandidate[]; // full and short copies matching the winner
+  conflicts: VinCandidate[];
+}
+
+export interface AnalysisWarning {
+  code: string;
+  message: string;
+}
+
+export interface AnalysisOptions {
+  variant?: FrmVariant; // user override of the detected variant
+  mcu?: string; // MCU implied by a full-chip image
+}
+
+// Keyed by vehicle field (vin, model, year, mileage) or coding field id
+export type FieldProvenanceMap = Record<string, FieldProvenance>;
+
+// A value read from a single slot with nothing to corroborate it
+const SINGLE_COPY_CONFIDENCE = 0.6;
+
+// VIN slots in order of preference
+const VIN_FIELD_IDS = ['vin', 'vinCopy'];
+const SHORT_VIN_FIELD_IDS = ['vinShort', 'vinShortUser'];
+
+const VIN_REGEX = /^[A-HJ-NPR-Z0-9]{17}$/;
+const SHORT_VIN_REGEX = /^[A-HJ-NPR-Z0-9]{7}$/;
+
+function regionsOf(parsed: ParsedDFlash): RegionData {
+  return { dflash: parsed.dflash, eeprom: parsed.replay.image };
+}
+
+// Parse stage
+
+/**
+ * Replays the EEE with the layout of the given variant, detected from the dump when
+ * not given (e.g. a variant the user picked over the detected one)
+ */
+export function parseDFlash(dflash: Uint8Array, variant?: string): ParsedDFlash {
+  if (dflash.length !== DFLASH_SIZE) {
+    throw new Error(`Invalid D-Flash size. Expected ${DFLASH_SIZE} bytes, got ${dflash.length} bytes`);
+  }
+
+  const frmType = variant ?? detectFrmType(dflash);
+  const layout = getLayout(frmType);
+
+  return { dflash, frmType, layout, replay: replayEee(dflash, layout.eeePartition) };
+}
+
+// Analyze stage
+
+/**
+ * Best-scoring variant, or "FRM3 Unknown" when the evidence does not decide;
+ * see variant-detection.ts for the ranked candidates
+ */
+export function detectFrmType(dflash: Uint8Array): string {
+  return detectVariant(dflash).variant;
+}
+
+function ratio(count: number, total: number): number {
+  return total > 0 ? Math.round((count / total) * 100) / 100 : 0;
+}
+
+function recoverableDataRatio(eeprom: Uint8Array, layout: FrmLayout): number {
+  const blocks = layout.checksumBlocks.filter(block => block.region === 'eeprom');
+  const populated = blocks.filter(block => eeprom.subarray(block.start, block.end).some(byte => byte !== 0xFF));
+  return ratio(populated.length, blocks.length);
+}
+
+/**
+ * Share of the expected EEPROM fields that decode to something plausible: a
+ * well-formed VIN, any written value for the rest, plus a consistent odometer
+ * ring. Coding left unprogrammed (0xFF) is normal on a clean module, so
+ * erased coding fields count neither for nor against the extraction.
+ */
+function extractionConfidence(regions: RegionData, layout: FrmLayout): number {
+  const fields = layout.fields.filter(field =>
+    field.region === 'eeprom' && (field.group !== 'coding' || readField(field, regions) !== undefined)
+  );
+  const plausible = fields.filter(field => {
+    const value = readField(field, regions);
+    if (VIN_FIELD_IDS.includes(field.id)) return typeof value === 'string' && VIN_REGEX.test(value);
+    if (SHORT_VIN_FIELD_IDS.includes(field.id)) return typeof value === 'string' && SHORT_VIN_REGEX.test(value);
+    return value !== undefined;
+  });
+  const odometer = extractMileage(regions, layout) !== undefined ? 1 : 0;
+  return ratio(plausible.length + odometer, fields.length + 1);
+}
+
+export function analyzeIntegrity(parsed: ParsedDFlash): IntegrityAnalysis {
+  const { sectors, validRecords, brokenRecords, image } = parsed.replay;
+  const recoverableSectors = sectors.filter(
+    sector => sector.state !== 'invalid' && sector.brokenRecords === 0
+  ).length;
+  const wellFormed = sectors.filter(sector => sector.state !== 'invalid').length;
+
+  return {
+    integrity: {
+      recoverableDataRatio: recoverableDataRatio(image, parsed.layout),
+      structuralValidity: ratio(wellFormed, sectors.length),
+      recordPassRate: ratio(validRecords, validRecords + brokenRecords),
+      extractionConfidence: extractionConfidence(regionsOf(parsed), parsed.layout),
+    },
+    recoverableSectors,
+    totalSectors: sectors.length,
+  };
+}
+
+/**
+ * A repair is worth attempting when some data survived and most records
+ * that were found pass their checks
+ */
+export function isRepairable(integrity: IntegrityMetrics): boolean {
+  return integrity.recoverableDataRatio > 0 &&
+    (integrity.recordPassRate === null || integrity.recordPassRate >= 0.5);
+}
+
+// Extract stage
+
+function readVinCandidates(regions: RegionData, layout: FrmLayout): VinCandidate[] {
+  const slots = [
+    ...VIN_FIELD_IDS.map(id => ({ id, kind: 'full' as const, pattern: VIN_REGEX })),
+    ...SHORT_VIN_FIELD_IDS.map(id => ({ id, kind: 'short' as const, pattern: SHORT_VIN_REGEX })),
+  ];
+  const candidates: VinCandidate[] = [];
+
+  for (const slot of slots) {
+    const field = getField(layout, slot.id);
+    const value = field && readField(field, regions);
+    if (field && typeof value === 'string' && slot.pattern.test(value)) {
+      candidates.push({ fieldId: field.id, source: sourceOf(field), value, kind: slot.kind });
+    }
+  }
+  return candidates;
+}
+
+function supportsVin(candidate: VinCandidate, vin: string): boolean {
+  return candidate.kind === 'full' ? candidate.value === vin : vin.endsWith(candidate.value);
+}
+
+/**
+ * Votes across every VIN slot. Each full copy votes for itself and each
+ * short VIN for the full VINs it ends; ties go to the preferred slot.
+ * Copies that disagree with the winner are reported as conflicts.
+ */
+export function findVinConsensus(regions: RegionData, layout: FrmLayout): VinConsensus {
+  const candidates = readVinCandidates(regions, layout);
+
+  let vin: string | undefined;
+  let bestVotes = 0;
+  for (const candidate of candidates) {
+    if (candidate.kind !== 'full') continue;
+    const votes = candidates.filter(other => supportsVin(other, candidate.value)).length;
+    if (votes > bestVotes) {
+      vin = candidate.value;
+      bestVotes = votes;
+    }
+  }
+
+  if (!vin) {
+    // Only short VINs: nothing to vote for, but disagreement is still worth reporting
+    const first = candidates[0];
+    return {
+      candidates,
+      agreeing: candidates.filter(candidate => candidate.value === first?.value),
+      conflicts: candidates.filter(candidate => candidate.value !== first?.value),
+    };
+  }
+
+  return {
+    vin,
+    candidates,
+    agreeing: candidates.filter(candidate => supportsVin(candidate, vin!)),
+    conflicts: candidates.filter(candidate => !supportsVin(candidate, vin!)),
+  };
+}
+
+export function extractVin(regions: RegionData, layout: FrmLayout): string | undefined {
+  return findVinConsensus(regions, layout).vin;
+}
+
+export function vinWarnings(consensus: VinConsensus): AnalysisWarning[] {
+  const warnings: AnalysisWarning[] = [];
+
+  const decoded = consensus.vin ? decodeVin(consensus.vin) : undefined;
+  if (decoded && decoded.checkDigit.required && !decoded.checkDigit.valid) {
+    warnings.push({
+      code: 'vin-check-digit',
+      message: `VIN ${decoded.vin} fails its check digit (expected ${decoded.checkDigit.expected}, found ${decoded.checkDigit.actual}); the VIN may be misread`,
+    });
+  }
+
+  if (consensus.conflicts.length > 0) {
+    const values = consensus.conflicts
+      .map(candidate => `${candidate.value} at ${candidate.source.region.toUpperCase()} ${formatOffset(candidate.source.offset)}`)
+      .join(', ');
+    warnings.push({
+      code: 'vin-conflict',
+      message: consensus.vin
+        ? `VIN copies disagree: ${consensus.vin} in ${consensus.agreeing.length} slots, but ${values}. The module may come from another car.`
+        : `Short VIN copies disagree: ${values}`,
+    });
+  }
+  if (!consensus.vin && consensus.candidates.length > 0) {
+    warnings.push({
+      code: 'vin-short-only',
+      message: `Only the short VIN ${consensus.candidates[0].value} was found; the full VIN is unreadable`,
+    });
+  }
+  return warnings;
+}
+
+/**
+ * Latest odometer reading, only when the record ring is consistent. A
+ * conflicting ring yields undefined rather than a guess.
+ */
+export function extractMileage(regions: RegionData, layout: FrmLayout): number | undefined {
+  return findOdometerConsensus(regions, layout.odometer).mileage;
+}
+
+export function odometerWarnings(consensus: OdometerConsensus): AnalysisWarning[] {
+  const damaged = consensus.records.filter(record => !record.valid).length;
+  if (consensus.status !== 'conflict') {
+    return damaged === 0 ? [] : [{
+      code: 'odometer-damaged',
+      message: `${damaged} odometer slot(s) fail their check word; the reported reading may be older than the instrument cluster`,
+    }];
+  }
+
+  const readings = consensus.records
+    .filter(record => record.valid)
+    .map(record => `${record.mileage} (#${record.counter})`)
+    .join(', ');
+  return [{
+    code: 'odometer-conflict',
+    message: `Odometer records disagree: ${readings}. No mileage is reported; confirm the reading before converting.`,
+  }];
+}
+
+/**
+ * Cross-checks the vehicle order against the VIN and the module coding
+ */
+export function vehicleOrderWarnings(regions: RegionData, layout: FrmLayout): AnalysisWarning[] {
+  const order = readVehicleOrder(regions, layout.vehicleOrder);
+  if (!order) return [];
+
+  const warnings: AnalysisWarning[] = [];
+  const typeCode = decodeVin(extractVin(regions, layout) ?? '')?.typeCode;
+  if (typeCode && typeCode !== order.typeKey) {
+    warnings.push({
+      code: 'fa-type-mismatch',
+      message: `Vehicle order type key ${order.typeKey} does not match VIN type code ${typeCode}; the module may come from another car`,
+    });
+  }
+
+  for (const mismatch of findCodingMismatches(order, codingValues(decodeCoding(regions, layout)))) {
+    const label = getField(layout, mismatch.field)?.label ?? mismatch.field;
+    warnings.push({
+      code: 'fa-coding-mismatch',
+      message: mismatch.ordered
+        ? `SA ${mismatch.code} is in the vehicle order but ${label} is coded off`
+        : `${label} is coded on but SA ${mismatch.code} is not in the vehicle order`,
+    });
+  }
+  return warnings;
+}
+
+export function identificationWarnings(regions: RegionData, layout: FrmLayout): AnalysisWarning[] {
+  const identification = readIdentification(regions, layout.identification);
+  if (!identification) return [];
+
+  const warnings: AnalysisWarning[] = [];
+  if (identification.diagnosticAddress !== FRM_DIAGNOSTIC_ADDRESS) {
+    warnings.push({
+      code: 'ident-not-frm',
+      message: `Diagnostic address ${formatDiagnosticAddress(identification.diagnosticAddress)} is not the footwell module (${formatDiagnosticAddress(FRM_DIAGNOSTIC_ADDRESS)})`,
+    });
+  }
+  if (identification.generation && identification.generation !== layout.variant) {
+    warnings.push({
+      code: 'ident-generation-mismatch',
+      message: `Part number ${identification.partNumber} belongs to ${identification.generation}, but the dump was decoded as ${layout.variant}`,
+    });
+  }
+  return warnings;
+}
+
+export function codingWarnings(regions: RegionData, layout: FrmLayout): AnalysisWarning[] {
+  return decodeCoding(regions, layout)
+    .filter(parameter => !parameter.valid)
+    .map(parameter => ({
+      code: 'coding-out-of-range',
+      message: `${parameter.label} holds ${parameter.value}, outside its allowed ${parameter.range
+        ? `range ${parameter.range.min}-${parameter.range.max}`
+        : 'options'}; check the coding before programming`,
+    }));
+}
+
+export function lampChannelWarnings(regions: RegionData, layout: FrmLayout): AnalysisWarning[] {
+  return readLampChannels(regions, layout.lampChannels).flatMap(channel =>
+    channel.issues.map(issue => ({
+      code: 'lamp-channel-config',
+      message: `${channel.function} (${channel.pin}): ${issue}`,
+    }))
+  );
+}
+
+export function checksumWarnings(eeprom: Uint8Array, layout: FrmLayout): AnalysisWarning[] {
+  return verifyChecksums(eeprom, layout)
+    .filter(result => result.status === 'invalid')
+    .map(result => {
+      const problems: string[] = [];
+      if (result.stored !== result.computed) {
+        problems.push(`fails its checksum (stored ${formatChecksum(result.stored!, result.algorithm!)}, computed ${formatChecksum(result.computed!, result.algorithm!)})`);
+      }
+      if (result.markerValid === false) {
+        problems.push('carries the wrong copy marker');
+      }
+      return { code: 'checksum-invalid', message: `${result.label} ${problems.join(' and ')}` };
+    });
+}
+
+export function collectWarnings(regions: RegionData, layout: FrmLayout): AnalysisWarning[] {
+  return [
+    ...vinWarnings(findVinConsensus(regions, layout)),
+    ...odometerWarnings(findOdometerConsensus(regions, layout.odometer)),
+    ...vehicleOrderWarnings(regions, layout),
+    ...identificationWarnings(regions, layout),
+    ...codingWarnings(regions, layout),
+    ...lampChannelWarnings(regions, layout),
+    ...(regions.eeprom ? checksumWarnings(regions.eeprom, layout) : []),
+  ];
+}
+
+/**
+ * Model, model year and chassis code from the VIN decoder
+ */
+export function describeVehicle(vin: string | undefined): Pick<VehicleData, 'model' | 'year' | 'chassisCode'> {
+  const decoded = vin ? decodeVin(vin) : undefined;
+  return {
+    model: decoded?.model,
+    year: decoded?.modelYear,
+    chassisCode: decoded?.chassisCode,
+  };
+}
+
+export function extractVehicleData(parsed: ParsedDFlash): VehicleData {
+  const regions = regionsOf(parsed);
+  const vin = extractVin(regions, parsed.layout);
+
+  return {
+    vin,
+    ...describeVehicle(vin),
+    mileage: extractMileage(regions, parsed.layout),
+    frmType: parsed.frmType,
+  };
+}
+
+export function extractCoding(parsed: ParsedDFlash): CodingParameter[] {
+  return decodeCoding(regionsOf(parsed), parsed.layout);
+}
+
+function sourceOf(field: LayoutField): FieldSource {
+  return { region: field.region, offset: field.offset, length: field.length };
+}
+
+export function describeDecoder(field: LayoutField): string {
+  switch (field.encoding) {
+    case 'ascii':
+      return 'ascii';
+    case 'bitfield':
+      return `bitfield (bit ${field.bit ?? 0})`;
+    case 'uint':
+      return `uint${field.length * 8}-${field.endianness === 'little' ? 'le' : 'be'}`;
+  }
+}
+
+/**
+ * Confidence grows with the share of slots that agree: one uncorroborated
+ * copy scores SINGLE_COPY_CONFIDENCE, all slots agreeing scores 1
+ */
+function copyConfidence(agreeing: number, slots: number): number {
+  if (agreeing === 0) return 0;
+  if (slots <= 1) return SINGLE_COPY_CONFIDENCE;
+  const share = (agreeing - 1) / (slots - 1);
+  return Math.round((SINGLE_COPY_CONFIDENCE + (1 - SINGLE_COPY_CONFIDENCE) * share) * 100) / 100;
+}
+
+function vinProvenance(regions: RegionData, layout: FrmLayout): FieldProvenance {
+  const { agreeing, conflicts } = findVinConsensus(regions, layout);
+  const slots = [...VIN_FIELD_IDS, ...SHORT_VIN_FIELD_IDS].filter(id => getField(layout, id)).length;
+  const agreement = agreeing.length / (agreeing.length + conflicts.length);
+
+  return {
+    sources: agreeing.map(candidate => candidate.source),
+    copies: agreeing.length,
+    decoder: 'ascii (VIN consensus)',
+    confidence: Math.round(copyConfidence(agreeing.length, slots) * agreement * 100) / 100,
+  };
+}
+
+/**
+ * Where every reported value was read from and how far it can be trusted
+ */
+export function extractProvenance(
+  regions: RegionData,
+  layout: FrmLayout,
+  vehicleData: VehicleData,
+  coding: CodingParameter[],
+): FieldProvenanceMap {
+  const provenance: FieldProvenanceMap = {};
+
+  if (vehicleData.vin) {
+    const vin = vinProvenance(regions, layout);
+    provenance.vin = vin;
+    if (vehicleData.model) {
+      provenance.model = { ...vin, decoder: 'vin-type-code' };
+    }
+    if (vehicleData.year) {
+      provenance.year = { ...vin, decoder: 'vin-model-year' };
+    }
+  }
+
+  const odometer = findOdometerConsensus(regions, layout.odometer);
+  if (vehicleData.mileage !== undefined) {
+    provenance.mileage = {
+      sources: odometer.agreeing.map(record => ({ region: layout.odometer.region, offset: record.offset, length: 8 })),
+      copies: odometer.agreeing.length,
+      decoder: 'odometer ring (uint32-be, counter, check)',
+      confidence: copyConfidence(odometer.agreeing.length, layout.odometer.slotCount),
+    };
+  }
+
+  const order = readVehicleOrder(regions, layout.vehicleOrder);
+  if (order) {
+    provenance.vehicleOrder = {
+      sources: [{ region: layout.vehicleOrder.region, offset: order.offset, length: layout.vehicleOrder.length }],
+      copies: 1,
+      decoder: 'FA block (ascii type key, build date, SA list)',
+      confidence: SINGLE_COPY_CONFIDENCE,
+    };
+  }
+
+  for (const { id } of coding) {
+    const field = getField(layout, id);
+    if (!field) continue;
+    provenance[id] = {
+      sources: [sourceOf(field)],
+      copies: 1,
+      decoder: describeDecoder(field),
+      confidence: SINGLE_COPY_CONFIDENCE,
+    };
+  }
+  return provenance;
+}
+
+// Build stage
+
+export function buildEeprom(parsed: ParsedDFlash): Uint8Array {
+  if (parsed.replay.validRecords === 0) {
+    throw new Error('No valid EEE records found in D-Flash');
+  }
+
+  const eeprom = new Uint8Array(parsed.layout.eepromSize).fill(0xFF);
+  eeprom.set(parsed.replay.image.subarray(0, eeprom.length));
+  return eeprom;
+}
+
+// Checksum stage
+
+/**
+ * 32-bit byte sum of the whole image, as displayed by programmer software.
+ * Informational only; the firmware checks the per-block checksums written
+ * by writeChecksums.
+ */
+export function checksumEeprom(eeprom: Uint8Array): number {
+  let checksum = 0;
+  for (let i = 0; i < eeprom.length; i++) {
+    checksum = (checksum + eeprom[i]) >>> 0;
+  }
+  return checksum;
+}
+
+/**
+ * Checksum blocks holding the fields that the coding changes wrote
+ */
+function changedBlocks(layout: FrmLayout, changes: CodingChange[]): string[] {
+  return changes
+    .map(change => getField(layout, change.id)?.checksumBlock)
+    .filter((block): block is string => block !== undefined);
+}
+
+// EEPROM images uploaded directly skip the EEE replay
+
+/**
+ * Layout of the detected variant; the default FRM3 layout when no variant or
+ * several variants match equally well
+ */
+export function detectEepromLayout(eeprom: Uint8Array): FrmLayout {
+  return getLayout(detectEepromVariant(eeprom).variant);
+}
+
+export function analyzeEeprom(eeprom: Uint8Array, options: AnalysisOptions = {}): FrmAnalysis {
+  const detection = detectEepromVariant(eeprom);
+  const frmType = options.variant ?? detection.variant;
+  const layout = getLayout(frmType);
+  if (eeprom.length !== layout.eepromSize) {
+    throw new Error(`Invalid EEPROM size. Expected ${layout.eepromSize} bytes, got ${eeprom.length} bytes`);
+  }
+
+  const regions: RegionData = { eeprom };
+  const vin = extractVin(regions, layout);
+  const vehicleData: VehicleData = {
+    vin,
+    ...describeVehicle(vin),
+    mileage: extractMileage(regions, layout),
+    frmType,
+  };
+  const coding = decodeCoding(regions, layout);
+
+  return {
+    integrity: {
+      recoverableDataRatio: recoverableDataRatio(eeprom, layout),
+      structuralValidity: null,
+      recordPassRate: null,
+      extractionConfidence: extractionConfidence(regions, layout),
+    },
+    recoverableSectors: 0,
+    totalSectors: 0,
+    vehicleData,
+    coding,
+    provenance: extractProvenance(regions, layout, vehicleData, coding),
+    odometer: findOdometerConsensus(regions, layout.odometer),
+    mileageUnit: detectMileageUnit(regions, layout, vin),
+    vehicleOrder: readVehicleOrder(regions, layout.vehicleOrder),
+    identification: readIdentification(regions, layout.identification),
+    lampChannels: readLampChannels(regions, layout.lampChannels),
+    blockChecksums: verifyChecksums(eeprom, layout),
+    eepromValidation: validateEeprom(eeprom, layout),
+    warnings: collectWarnings(regions, layout),
+    variantDetection: { ...detection, override: options.variant },
+  };
+}
+
+export function convertEepromImage(eeprom: Uint8Array, options: ConversionOptions = {}): ConversionResult {
+  const layout = options.variant ? getLayout(options.variant) : detectEepromLayout(eeprom);
+  if (eeprom.length !== layout.eepromSize) {
+    return {
+      success: false,
+      error: `Invalid EEPROM size. Expected ${layout.eepromSize} bytes, got ${eeprom.length} bytes`,
+    };
+  }
+
+  // Requested repairs run first so coding is applied over restored blocks.
+  // Only blocks the coding changes touched are re-checksummed; the rest of an
+  // uploaded image is passed through as read.
+  const eepromData = new Uint8Array(eeprom);
+  const repairChanges = repairEeprom(eepromData, layout, options.repairs ?? []);
+  const codingChanges = applyCodingOverrides(eepromData, layout, options.codingOverrides ?? {});
+  writeChecksums(eepromData, layout, changedBlocks(layout, codingChanges));
+  return {
+    success: true,
+    eepromData,
+    checksum: checksumEeprom(eepromData),
+    codingChanges,
+    blockChecksums: verifyChecksums(eepromData, layout),
+    repairChanges,
+  };
+}
+
+// Reverse path: EEPROM -> D-Flash
+
+/**
+ * Carries the non-EEE sectors (user partition) over from an existing D-Flash,
+ * or writes the layout's MCU signature when there is none to keep
+ */
+function fillUserPartition(dflash: Uint8Array, layout: FrmLayout, baseDFlash?: Uint8Array): void {
+  const { firstSector, sectorCount } = layout.eeePartition;
+  const eeeStart = firstSector * EEE_SECTOR_SIZE;
+  const eeeEnd = (firstSector + sectorCount) * EEE_SECTOR_SIZE;
+
+  if (baseDFlash && baseDFlash.length === DFLASH_SIZE) {
+    dflash.set(baseDFlash.subarray(0, eeeStart), 0);
+    dflash.set(baseDFlash.subarray(eeeEnd), eeeEnd);
+    return;
+  }
+
+  const signature = getField(layout, 'mcuSignature');
+  if (signature && layout.signature && signature.offset + signature.length <= eeeStart) {
+    writeField(signature, dflash, layout.mcu);
+  }
+}
+
+function countMismatchedWords(expected: Uint8Array, actual: Uint8Array): number {
+  let mismatched = 0;
+  for (let i = 0; i < expected.length; i += 2) {
+    if (expected[i] !== actual[i] || expected[i + 1] !== actual[i + 1]) {
+      mismatched++;
+    }
+  }
+  return mismatched;
+}
+
+/**
+ * Replays the encoded D-Flash with the target layout and compares the result
+ * with the source EEPROM
+ */
+export function verifyRoundTrip(dflash: Uint8Array, eeprom: Uint8Array, layout: FrmLayout): RoundTripCheck {
+  const replay = replayEee(dflash, layout.eeePartition);
+  const mismatchedWords = countMismatchedWords(eeprom, replay.image);
+
+  return {
+    passed: mismatchedWords === 0 && replay.brokenRecords === 0,
+    mismatchedWords,
+    validRecords: replay.validRecords,
+    detectedType: detectFrmType(dflash),
+  };
+}
+
+export function encodeEepromToDFlash(eeprom: Uint8Array, frmType: string, baseDFlash?: Uint8Array): EncodeResult {
+  try {
+    const layout = getLayout(frmType);
+    if (eeprom.length !== layout.eepromSize) {
+      throw new Error(`Invalid EEPROM size. Expected ${layout.eepromSize} bytes, got ${eeprom.length} bytes`);
+    }
+    if (eeprom.every(byte => byte === 0xFF)) {
+      throw new Error('EEPROM image is blank');
+    }
+
+    const dflashData = encodeEee(eeprom, layout.eeePartition);
+    fillUserPartition(dflashData, layout, baseDFlash);
+
+    const selfCheck = verifyRoundTrip(dflashData, eeprom, layout);
+    if (!selfCheck.passed) {
+      return {
+        success: false,
+        selfCheck,
+        error: `Round-trip check failed: ${selfCheck.mismatchedWords} words differ after replay`,
+      };
+    }
+
+    return { success: true, dflashData, selfCheck };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown encoding error',
+    };
+  }
+}
+
+// Pipeline entry points
+
+export function analyzeDFlash(dflash: Uint8Array, options: AnalysisOptions = {}): FrmAnalysis {
+  if (dflash.length !== DFLASH_SIZE) {
+    throw new Error(`Invalid D-Flash size. Expected ${DFLASH_SIZE} bytes, got ${dflash.length} bytes`);
+  }
+
+  const detection = detectVariant(dflash, { mcu: options.mcu });
+  const parsed = parseDFlash(dflash, options.variant ?? detection.variant);
+  const vehicleData = extractVehicleData(parsed);
+  const coding = extractCoding(parsed);
+
+  return {
+    ...analyzeIntegrity(parsed),
+    vehicleData,
+    coding,
+    provenance: extractProvenance(regionsOf(parsed), parsed.layout, vehicleData, coding),
+    odometer: findOdometerConsensus(regionsOf(parsed), parsed.layout.odometer),
+    mileageUnit: detectMileageUnit(regionsOf(parsed), parsed.layout, vehicleData.vin),
+    vehicleOrder: readVehicleOrder(regionsOf(parsed), parsed.layout.vehicleOrder),
+    identification: readIdentification(regionsOf(parsed), parsed.layout.identification),
+    lampChannels: readLampChannels(regionsOf(parsed), parsed.layout.lampChannels),
+    blockChecksums: verifyChecksums(parsed.replay.image, parsed.layout),
+    warnings: collectWarnings(regionsOf(parsed), parsed.layout),
+    sectorHealth: analyzeSectorHealth(parsed.dflash, parsed.layout.eeePartition),
+    variantDetection: { ...detection, override: options.variant },
+  };
+}
+
+export function convertDFlashToEeprom(dflash: Uint8Array, options: ConversionOptions = {}): ConversionResult {
+  try {
+    const parsed = parseDFlash(dflash, options.variant);
+    const eepromData = buildEeprom(parsed);
+    const codingChanges = applyCodingOverrides(eepromData, parsed.layout, options.codingOverrides ?? {});
+    // Replayed blocks keep the checksums the module wrote, so damaged blocks still fail
+    writeChecksums(eepromData, parsed.layout, changedBlocks(parsed.layout, codingChanges));
+
+    return {
+      success: true,
+      eepromData,
+      checksum: checksumEeprom(eepromData),
+      vehicleData: extractVehicleData(parsed),
+      codingChanges,
+      blockChecksums: verifyChecksums(eepromData, parsed.layout),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown conversion error',
+    };
+  }
+}
@@ -0,0 +1,125 @@
+// Dump file container decoding
+// Programmers save dumps either as raw binaries or as text containers with
+// load addresses; everything is normalised to a flat binary before analysis.
+
+import { decodeText, looksLikeIntelHex, parseIntelHex, writeIntelHex, type HexParseError } from "./intel-hex";
+import { looksLikeSRecord, parseSRecord, writeSRecord } from "./srecord";
+
+export type DumpFormat = 'binary' | 'intel-hex' | 'srecord';
+
+export const DUMP_FORMAT_LABELS: Record<DumpFormat, string> = {
+  'binary': 'Binary',
+  'intel-hex': 'Intel HEX',
+  'srecord': 'Motorola S-record',
+};
+
+// Accepted upload extensions, shared by the server file filter and the client
+export const DUMP_FILE_EXTENSIONS = ['.bin', '.hex', '.eep', '.s19', '.s28', '.s37', '.srec', '.mot'];
+
+export interface DecodedDump {
+  format: DumpFormat;
+  data: Uint8Array;
+  baseAddress: number;
+  errors: HexParseError[];
+}
+
+export function detectDumpFormat(file: Uint8Array): DumpFormat {
+  if (looksLikeIntelHex(file)) return 'intel-hex';
+  if (looksLikeSRecord(file)) return 'srecord';
+  return 'binary';
+}
+
+export function decodeDump(file: Uint8Array): DecodedDump {
+  const format = detectDumpFormat(file);
+
+  if (format === 'intel-hex') {
+    const image = parseIntelHex(decodeText(file));
+    return { format, data: image.data, baseAddress: image.baseAddress, errors: image.errors };
+  }
+
+  if (format === 'srecord') {
+    const image = parseSRecord(decodeText(file));
+    return { format, data: image.data, baseAddress: image.baseAddress, errors: image.errors };
+  }
+
+  return { format, data: file, baseAddress: 0, errors: [] };
+}
+
+// Download containers for the repaired EEPROM
+
+export type ExportFormat = 'bin' | 'hex' | 's19' | 'bin-swapped';
+
+export interface ExportFormatInfo {
+  id: ExportFormat;
+  label: string;
+  extension: string;
+  contentType: string;
+  description: string;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  'bin': {
+    id: 'bin',
+    label: 'Binary (.bin)',
+    extension: '.bin',
+    contentType: 'application/octet-stream',
+    description: 'Raw image for VVDI Prog and most programmers',
+  },
+  'hex': {
+    id: 'hex',
+    label: 'Intel HEX (.hex)',
+    extension: '.hex',
+    contentType: 'text/plain; charset=us-ascii',
+    description: 'Addressed text image for XProg',
+  },
+  's19': {
+    id: 's19',
+    label: 'Motorola S19 (.s19)',
+    extension: '.s19',
+    contentType: 'text/plain; charset=us-ascii',
+    description: 'Freescale/NXP native format for BDM tools',
+  },
+  'bin-swapped': {
+    id: 'bin-swapped',
+    label: 'Word-swapped binary (.bin)',
+    extension: '_swapped.bin',
+    contentType: 'application/octet-stream',
+    description: 'Byte order swapped within 16-bit words for Orange5',
+  },
+};
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && Object.hasOwn(EXPORT_FORMATS, value);
+}
+
+/**
+ * Swaps the two bytes of every 16-bit word
+ */
+export function swapBytePairs(data: Uint8Array): Uint8Array {
+  const swapped = new Uint8Array(data.length);
+  for (let i = 0; i + 1 < data.length; i += 2) {
+    swapped[i] = data[i + 1];
+    swapped[i + 1] = data[i];
+  }
+  if (data.length % 2 !== 0) {
+    swapped[data.length - 1] = data[data.length - 1];
+  }
+  return swapped;
+}
+
+export function encodeExport(data: Uint8Array, format: ExportFormat, header = ''): Uint8Array {
+  switch (format) {
+    case 'bin':
+      return data;
+    case 'bin-swapped':
+      return swapBytePairs(data);
+    case 'hex':
+      return encodeText(writeIntelHex(data));
+    case 's19':
+      return encodeText(writeSRecord(data, { header }));
+  }
+}
+
+function encodeText(text: string): Uint8Array {
+  return Uint8Array.from(text, char => char.charCodeAt(0) & 0xFF);
+}
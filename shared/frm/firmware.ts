@@ -0,0 +1,83 @@
+// P-Flash firmware identification
+// Builds a report for program-flash images uploaded in place of a D-Flash dump
+
+import { decodeIdentBlock, type ModuleIdentification } from "./identification";
+
+export interface FirmwareReport {
+  size: number;
+  mcu?: string;
+  resetVector?: number;
+  usedBytes: number; // bytes that are not erased (0xFF)
+  codeDensity: number; // share of common HCS12X opcodes among used bytes
+  strings: string[];
+  identification?: ModuleIdentification;
+}
+
+// JSR/JMP/RTS/CALL/RTC, LDD/LDY/LDX immediate and the page-2 prefix
+const COMMON_OPCODES = new Set([0x16, 0x06, 0x3D, 0x4A, 0x0A, 0xCC, 0xCD, 0xCE, 0x18]);
+
+const PFLASH_MCUS: Record<number, string> = {
+  [384 * 1024]: 'MC9S12XEQ384',
+  [512 * 1024]: 'MC9S12XET512',
+};
+
+// Identification block at 0xFE00 of the fixed page, just below the vector table
+const PFLASH_IDENT_FROM_END = 0x200;
+
+const MIN_STRING_LENGTH = 8;
+const MAX_STRINGS = 20;
+
+/**
+ * Share of used bytes that are frequent HCS12X opcodes. Random data and
+ * tables sit around 0.035, compiled code well above 0.08.
+ */
+export function measureCodeDensity(data: Uint8Array): { usedBytes: number; codeDensity: number } {
+  let usedBytes = 0;
+  let opcodes = 0;
+  for (let i = 0; i < data.length; i++) {
+    if (data[i] === 0xFF) continue;
+    usedBytes++;
+    if (COMMON_OPCODES.has(data[i])) opcodes++;
+  }
+  return { usedBytes, codeDensity: usedBytes > 0 ? opcodes / usedBytes : 0 };
+}
+
+/**
+ * Reset vector from the last word of a paged P-Flash image, if it points
+ * into the fixed page window
+ */
+export function readResetVector(data: Uint8Array): number | undefined {
+  if (data.length < 0x4000 || data.length % 0x4000 !== 0) return undefined;
+
+  const vector = (data[data.length - 2] << 8) | data[data.length - 1];
+  return vector >= 0xC000 && vector < 0xFFFF ? vector : undefined;
+}
+
+export function extractStrings(data: Uint8Array, limit = MAX_STRINGS): string[] {
+  const strings: string[] = [];
+  let current = '';
+
+  for (let i = 0; i <= data.length && strings.length < limit; i++) {
+    const byte = i < data.length ? data[i] : 0;
+    if (byte >= 0x20 && byte <= 0x7E) {
+      current += String.fromCharCode(byte);
+      continue;
+    }
+    if (current.trim().length >= MIN_STRING_LENGTH) {
+      strings.push(current.trim());
+    }
+    current = '';
+  }
+  return strings;
+}
+
+export function identifyFirmware(pflash: Uint8Array): FirmwareReport {
+  return {
+    size: pflash.length,
+    mcu: PFLASH_MCUS[pflash.length],
+    resetVector: readResetVector(pflash),
+    ...measureCodeDensity(pflash),
+    strings: extractStrings(pflash),
+    identification: decodeIdentBlock(pflash, pflash.length - PFLASH_IDENT_FROM_END, 'pflash'),
+  };
+}
@@ -0,0 +1,120 @@
+// Module identification
+// Every FRM carries an identification block with its BMW part number,
+// hardware/software versions, coding index, diagnostic address and supplier.
+// FRM3 keeps it in the D-Flash user partition, FRM2 in the emulated EEPROM,
+// and the program image carries its own copy below the vector table.
+//
+// Block layout (offsets relative to the block):
+//   0x00  BMW part number, 7 ASCII digits
+//   0x07  hardware version (uint8)
+//   0x08  software version, major and minor (uint8 each)
+//   0x0A  coding index (uint8)
+//   0x0B  diagnostic address (uint8)
+//   0x0C  supplier ID (uint16, big-endian)
+
+import type { FrmVariant, IdentificationLayout, RegionData } from "./layouts";
+
+export const IDENT_BLOCK_SIZE = 16;
+
+// Diagnostic address of the footwell module on the K-CAN
+export const FRM_DIAGNOSTIC_ADDRESS = 0x72;
+
+export type IdentificationRegion = 'eeprom' | 'dflash' | 'pflash';
+
+export interface ModuleIdentification {
+  region: IdentificationRegion;
+  offset: number;
+  partNumber: string;
+  hardwareVersion: number;
+  softwareVersion: string;
+  codingIndex: number;
+  diagnosticAddress: number;
+  supplierId: number;
+  supplier?: string;
+  generation?: FrmVariant;
+  generationSource?: 'part-number' | 'hardware-version';
+  description?: string;
+}
+
+interface KnownModule {
+  generation: FrmVariant;
+  description: string;
+}
+
+const KNOWN_PART_NUMBERS: Record<string, KnownModule> = {
+  '6982263': { generation: 'FRM2', description: 'FRM2 (E60/E61, E63/E64)' },
+  '6988054': { generation: 'FRM2', description: 'FRM2 (E87, E90 early)' },
+  '9187234': { generation: 'FRM3 XEQ384', description: 'FRM3 (E90/E91/E92, E70)' },
+  '9201861': { generation: 'FRM3 XEQ384', description: 'FRM3 (E82/E88, E84)' },
+  '9225040': { generation: 'FRM3 XET512', description: 'FRM3 with adaptive headlights' },
+  '9267830': { generation: 'FRM3 XET512', description: 'FRM3 LCI (R56, E89)' },
+};
+
+// Hardware version ranges per generation, for part numbers not listed above
+const HARDWARE_GENERATIONS: { from: number; to: number; generation: FrmVariant }[] = [
+  { from: 0x01, to: 0x1F, generation: 'FRM2' },
+  { from: 0x20, to: 0x2F, generation: 'FRM3 XEQ384' },
+  { from: 0x30, to: 0x3F, generation: 'FRM3 XET512' },
+];
+
+const SUPPLIERS: Record<number, string> = {
+  0x0011: 'Lear',
+  0x0026: 'Hella',
+  0x0032: 'Kostal',
+  0x0046: 'Continental',
+};
+
+const PART_NUMBER_PATTERN = /^\d{7}$/;
+
+/**
+ * BMW style grouping, e.g. 9187234 -> "9 187 234"
+ */
+export function formatPartNumber(partNumber: string): string {
+  return `${partNumber.charAt(0)} ${partNumber.substring(1, 4)} ${partNumber.substring(4)}`;
+}
+
+export function formatDiagnosticAddress(address: number): string {
+  return `0x${address.toString(16).toUpperCase().padStart(2, '0')}`;
+}
+
+function resolveGeneration(partNumber: string, hardwareVersion: number): Pick<ModuleIdentification, 'generation' | 'generationSource' | 'description'> {
+  const known = KNOWN_PART_NUMBERS[partNumber];
+  if (known) {
+    return { generation: known.generation, generationSource: 'part-number', description: known.description };
+  }
+
+  const range = HARDWARE_GENERATIONS.find(item => hardwareVersion >= item.from && hardwareVersion <= item.to);
+  return range ? { generation: range.generation, generationSource: 'hardware-version' } : {};
+}
+
+/**
+ * Decodes an identification block. Anything without a 7-digit part number
+ * is not an identification block and yields undefined.
+ */
+export function decodeIdentBlock(data: Uint8Array, offset: number, region: IdentificationRegion): ModuleIdentification | undefined {
+  if (offset < 0 || offset + IDENT_BLOCK_SIZE > data.length) return undefined;
+
+  const partNumber = String.fromCharCode(...Array.from(data.subarray(offset, offset + 7)));
+  if (!PART_NUMBER_PATTERN.test(partNumber)) return undefined;
+
+  const hardwareVersion = data[offset + 7];
+  const supplierId = (data[offset + 12] << 8) | data[offset + 13];
+
+  return {
+    region,
+    offset,
+    partNumber,
+    hardwareVersion,
+    softwareVersion: `${data[offset + 8]}.${data[offset + 9]}`,
+    codingIndex: data[offset + 10],
+    diagnosticAddress: data[offset + 11],
+    supplierId,
+    supplier: SUPPLIERS[supplierId],
+    ...resolveGeneration(partNumber, hardwareVersion),
+  };
+}
+
+export function readIdentification(regions: RegionData, layout: IdentificationLayout): ModuleIdentification | undefined {
+  const data = regions[layout.region];
+  return data ? decodeIdentBlock(data, layout.offset, layout.region) : undefined;
+}
@@ -0,0 +1,129 @@
+// Upload classification: D-Flash vs. EEPROM vs. P-Flash
+// Each check contributes weighted evidence; the best-scoring kind decides
+// which path the upload takes.
+
+import { EEE_RAM_SIZE } from "./eee";
+import { countEeeHeaders, locateDFlash, type DFlashSlice } from "./dump-slicer";
+import type { DecodedDump } from "./file-formats";
+import { measureCodeDensity, readResetVector } from "./firmware";
+import { FRM_LAYOUTS, getField, getFieldsByGroup, readField } from "./layouts";
+
+export type InputKind = 'dflash' | 'eeprom' | 'pflash' | 'unknown';
+
+export interface ClassificationEvidence {
+  check: string;
+  detail: string;
+  supports: InputKind;
+  weight: number;
+}
+
+export interface InputClassification {
+  kind: InputKind;
+  confidence: number; // 0..1, share of the total evidence weight
+  evidence: ClassificationEvidence[];
+}
+
+const CODE_DENSITY_THRESHOLD = 0.08;
+const PFLASH_PAGE_SIZE = 0x4000;
+
+const VIN_REGEX = /^[A-HJ-NPR-Z0-9]{17}$/;
+
+function checkSize(data: Uint8Array, slice: DFlashSlice | null): ClassificationEvidence[] {
+  const size = data.length;
+
+  if (size === EEE_RAM_SIZE) {
+    return [{ check: 'size', detail: '4KB matches the EEE buffer RAM size', supports: 'eeprom', weight: 3 }];
+  }
+  if (slice && slice.imageKind === 'dflash') {
+    return [{ check: 'size', detail: '32KB matches the D-Flash size', supports: 'dflash', weight: 2 }];
+  }
+  if (slice && slice.method === 'address-map') {
+    return [{ check: 'size', detail: `${size} bytes matches a ${slice.imageKind} layout containing the D-Flash`, supports: 'dflash', weight: 2 }];
+  }
+  if (size >= 2 * PFLASH_PAGE_SIZE && size % PFLASH_PAGE_SIZE === 0) {
+    return [{ check: 'size', detail: `${size} bytes is a whole number of 16KB P-Flash pages`, supports: 'pflash', weight: 2 }];
+  }
+  return [];
+}
+
+function checkEeeHeaders(slice: DFlashSlice | null): ClassificationEvidence[] {
+  if (!slice || slice.eeeHeaders === 0) return [];
+
+  return [{
+    check: 'eee-headers',
+    detail: `${slice.eeeHeaders} sectors carry valid EEE sector headers`,
+    supports: 'dflash',
+    weight: slice.eeeHeaders >= 2 ? 6 : 2,
+  }];
+}
+
+function checkEepromStructure(data: Uint8Array): ClassificationEvidence[] {
+  if (data.length !== EEE_RAM_SIZE || countEeeHeaders(data) > 0) return [];
+
+  for (const layout of Object.values(FRM_LAYOUTS)) {
+    const vinField = getField(layout, 'vin');
+    const vin = vinField && readField(vinField, { eeprom: data });
+    if (typeof vin !== 'string' || !VIN_REGEX.test(vin)) continue;
+
+    const evidence: ClassificationEvidence[] = [
+      { check: 'vin-slot', detail: `VIN ${vin} at the ${layout.label} VIN slot`, supports: 'eeprom', weight: 3 },
+    ];
+    const coding = getFieldsByGroup(layout, 'coding').filter(field => readField(field, { eeprom: data }) !== undefined);
+    if (coding.length > 0) {
+      evidence.push({ check: 'coding-block', detail: `${coding.length} coding fields populated`, supports: 'eeprom', weight: 1 });
+    }
+    return evidence;
+  }
+  return [];
+}
+
+function checkCode(data: Uint8Array): ClassificationEvidence[] {
+  const evidence: ClassificationEvidence[] = [];
+  const { usedBytes, codeDensity } = measureCodeDensity(data);
+
+  if (usedBytes > 0 && codeDensity >= CODE_DENSITY_THRESHOLD) {
+    evidence.push({
+      check: 'code-density',
+      detail: `${(codeDensity * 100).toFixed(1)}% of used bytes are common HCS12X opcodes`,
+      supports: 'pflash',
+      weight: 3,
+    });
+  }
+
+  const resetVector = readResetVector(data);
+  if (resetVector !== undefined) {
+    evidence.push({
+      check: 'reset-vector',
+      detail: `Reset vector points to 0x${resetVector.toString(16).toUpperCase()}`,
+      supports: 'pflash',
+      weight: 2,
+    });
+  }
+  return evidence;
+}
+
+export function classifyInput(decoded: DecodedDump): InputClassification {
+  const { data } = decoded;
+  const slice = data.length === EEE_RAM_SIZE ? null : locateDFlash(decoded);
+
+  const evidence = [
+    ...checkSize(data, slice),
+    ...checkEeeHeaders(slice),
+    ...checkEepromStructure(data),
+    ...checkCode(data),
+  ];
+
+  const scores: Record<InputKind, number> = { dflash: 0, eeprom: 0, pflash: 0, unknown: 0 };
+  for (const item of evidence) {
+    scores[item.supports] += item.weight;
+  }
+
+  const total = evidence.reduce((sum, item) => sum + item.weight, 0);
+  const [kind, score] = (Object.entries(scores) as [InputKind, number][])
+    .sort((a, b) => b[1] - a[1])[0];
+
+  if (score === 0) {
+    return { kind: 'unknown', confidence: 0, evidence };
+  }
+  return { kind, confidence: Math.round((score / total) * 100) / 100, evidence };
+}
@@ -0,0 +1,262 @@
+// Intel HEX reader
+// Supports data (00), EOF (01), extended segment (02/03) and extended linear
+// (04/05) records. Bytes are placed at their load addresses and gaps are
+// filled with the erased flash value; files whose records span more than the
+// MCU's memory map are rejected before any image is allocated.
+
+export interface HexParseError {
+  line: number;
+  message: string;
+}
+
+export interface IntelHexImage {
+  data: Uint8Array; // contiguous image starting at baseAddress
+  baseAddress: number;
+  startAddress?: number; // from record type 03/05
+  recordCount: number;
+  errors: HexParseError[];
+}
+
+const RECORD_DATA = 0x00;
+const RECORD_EOF = 0x01;
+const RECORD_EXTENDED_SEGMENT = 0x02;
+const RECORD_START_SEGMENT = 0x03;
+const RECORD_EXTENDED_LINEAR = 0x04;
+const RECORD_START_LINEAR = 0x05;
+
+// Payload length of the address records; anything else is malformed
+const ADDRESS_RECORD_LENGTHS: Record<number, number> = {
+  [RECORD_EXTENDED_SEGMENT]: 2,
+  [RECORD_START_SEGMENT]: 4,
+  [RECORD_EXTENDED_LINEAR]: 2,
+  [RECORD_START_LINEAR]: 4,
+};
+
+const ERASED_BYTE = 0xFF;
+
+// No dump of an MC9S12XE spans more than its 8MB global memory map
+export const MAX_IMAGE_SPAN = 0x800000;
+
+export interface AddressSpan {
+  low: number;
+  high: number; // exclusive
+}
+
+export function emptySpan(): AddressSpan {
+  return { low: Infinity, high: 0 };
+}
+
+/**
+ * Grows the span by one chunk. Returns an error message once the records
+ * cover more than MAX_IMAGE_SPAN, before any image is allocated for them.
+ */
+export function extendSpan(span: AddressSpan, address: number, length: number): string | undefined {
+  span.low = Math.min(span.low, address);
+  span.high = Math.max(span.high, address + length);
+  if (span.high - span.low > MAX_IMAGE_SPAN) {
+    return `Records span 0x${span.low.toString(16).toUpperCase()}-0x${(span.high - 1).toString(16).toUpperCase()}, more than the ${MAX_IMAGE_SPAN / 0x100000}MB MC9S12XE memory map`;
+  }
+  return undefined;
+}
+
+/**
+ * Detects Intel HEX text by its record structure
+ */
+export function looksLikeIntelHex(data: Uint8Array): boolean {
+  const head = String.fromCharCode(...Array.from(data.subarray(0, 256))).trimStart();
+  return /^:[0-9A-Fa-f]{10}/.test(head) && /^[:\r\n0-9A-Fa-f\s]+$/.test(head);
+}
+
+export function decodeText(data: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i < data.length; i += 0x2000) {
+    text += String.fromCharCode(...Array.from(data.subarray(i, i + 0x2000)));
+  }
+  return text;
+}
+
+function parseRecordBytes(hex: string): number[] | null {
+  if (hex.length % 2 !== 0 || !/^[0-9A-Fa-f]*$/.test(hex)) return null;
+
+  const bytes: number[] = [];
+  for (let i = 0; i < hex.length; i += 2) {
+    bytes.push(parseInt(hex.substring(i, i + 2), 16));
+  }
+  return bytes;
+}
+
+export function parseIntelHex(text: string): IntelHexImage {
+  const errors: HexParseError[] = [];
+  const chunks: { address: number; bytes: number[] }[] = [];
+  const span = emptySpan();
+  let upperAddress = 0;
+  let startAddress: number | undefined;
+  let recordCount = 0;
+  let sawEof = false;
+  let oversized = false;
+
+  const lines = text.split(/\r?\n/);
+  for (let index = 0; index < lines.length; index++) {
+    const lineNumber = index + 1;
+    const line = lines[index].trim();
+    if (line === '') continue;
+
+    if (sawEof) {
+      errors.push({ line: lineNumber, message: 'Data after end-of-file record' });
+      break;
+    }
+    if (!line.startsWith(':')) {
+      errors.push({ line: lineNumber, message: 'Record does not start with ":"' });
+      continue;
+    }
+
+    const bytes = parseRecordBytes(line.substring(1));
+    if (!bytes || bytes.length < 5) {
+      errors.push({ line: lineNumber, message: 'Malformed record' });
+      continue;
+    }
+
+    const [byteCount, addressHigh, addressLow, recordType] = bytes;
+    if (bytes.length !== byteCount + 5) {
+      errors.push({ line: lineNumber, message: `Byte count ${byteCount} does not match record length` });
+      continue;
+    }
+
+    const sum = bytes.reduce((total, byte) => total + byte, 0) & 0xFF;
+    if (sum !== 0) {
+      const expected = (0x100 - (bytes.slice(0, -1).reduce((total, byte) => total + byte, 0) & 0xFF)) & 0xFF;
+      errors.push({
+        line: lineNumber,
+        message: `Checksum mismatch (expected 0x${expected.toString(16).toUpperCase().padStart(2, '0')})`,
+      });
+      continue;
+    }
+
+    const addressRecordLength = ADDRESS_RECORD_LENGTHS[recordType];
+    if (addressRecordLength !== undefined && byteCount !== addressRecordLength) {
+      errors.push({ line: lineNumber, message: `Record type 0x${recordType.toString(16).padStart(2, '0')} needs ${addressRecordLength} data bytes, got ${byteCount}` });
+      continue;
+    }
+
+    const payload = bytes.slice(4, 4 + byteCount);
+    recordCount++;
+
+    if (recordType === RECORD_DATA) {
+      const address = upperAddress + ((addressHigh << 8) | addressLow);
+      const spanError = extendSpan(span, address, payload.length);
+      if (spanError) {
+        // Nothing is assembled from a file this large
+        errors.push({ line: lineNumber, message: spanError });
+        chunks.length = 0;
+        oversized = true;
+        break;
+      }
+      chunks.push({ address, bytes: payload });
+      continue;
+    }
+
+    switch (recordType) {
+      case RECORD_EOF:
+        sawEof = true;
+        break;
+      case RECORD_EXTENDED_SEGMENT:
+        upperAddress = ((payload[0] << 8) | payload[1]) * 16;
+        break;
+      case RECORD_EXTENDED_LINEAR:
+        upperAddress = ((payload[0] << 8) | payload[1]) * 0x10000;
+        break;
+      case RECORD_START_SEGMENT:
+      case RECORD_START_LINEAR:
+        startAddress = payload.reduce((value, byte) => value * 256 + byte, 0);
+        break;
+      default:
+        errors.push({ line: lineNumber, message: `Unknown record type 0x${recordType.toString(16).padStart(2, '0')}` });
+    }
+  }
+
+  if (!sawEof && !oversized) {
+    errors.push({ line: lines.length, message: 'Missing end-of-file record' });
+  }
+
+  return { ...assembleChunks(chunks), startAddress, recordCount, errors };
+}
+
+/**
+ * Places address/byte chunks into one contiguous image, filling gaps with 0xFF
+ */
+export function assembleChunks(chunks: { address: number; bytes: number[] }[]): { data: Uint8Array; baseAddress: number } {
+  if (chunks.length === 0) {
+    return { data: new Uint8Array(0), baseAddress: 0 };
+  }
+
+  let baseAddress = Infinity;
+  let endAddress = 0;
+  for (const chunk of chunks) {
+    baseAddress = Math.min(baseAddress, chunk.address);
+    endAddress = Math.max(endAddress, chunk.address + chunk.bytes.length);
+  }
+  if (endAddress - baseAddress > MAX_IMAGE_SPAN) {
+    throw new Error(`Image spans ${endAddress - baseAddress} bytes, more than ${MAX_IMAGE_SPAN}`);
+  }
+  const data = new Uint8Array(endAddress - baseAddress).fill(ERASED_BYTE);
+
+  for (const chunk of chunks) {
+    data.set(chunk.bytes, chunk.address - baseAddress);
+  }
+  return { data, baseAddress };
+}
+
+/**
+ * Cuts an address window out of a parsed image, padding with 0xFF where the
+ * file had no records (programmers often skip fully erased lines)
+ */
+export function sliceImage(image: { data: Uint8Array; baseAddress: number }, start: number, length: number): Uint8Array {
+  const window = new Uint8Array(length).fill(ERASED_BYTE);
+  const from = Math.max(start, image.baseAddress);
+  const to = Math.min(start + length, image.baseAddress + image.data.length);
+
+  if (to > from) {
+    window.set(image.data.subarray(from - image.baseAddress, to - image.baseAddress), from - start);
+  }
+  return window;
+}
+
+export function formatHexErrors(errors: HexParseError[], limit = 5): string {
+  const shown = errors.slice(0, limit).map(error => `line ${error.line}: ${error.message}`);
+  const more = errors.length > limit ? ` (+${errors.length - limit} more)` : '';
+  return shown.join('; ') + more;
+}
+
+function formatHexRecord(type: number, address: number, payload: ArrayLike<number>): string {
+  const bytes = [payload.length, (address >> 8) & 0xFF, address & 0xFF, type, ...Array.from(payload)];
+  const checksum = (0x100 - (bytes.reduce((total, byte) => total + byte, 0) & 0xFF)) & 0xFF;
+  bytes.push(checksum);
+
+  return ':' + bytes.map(byte => byte.toString(16).toUpperCase().padStart(2, '0')).join('');
+}
+
+/**
+ * Emits Intel HEX, adding extended linear address records above 64KB
+ */
+export function writeIntelHex(data: Uint8Array, baseAddress = 0, bytesPerRecord = 16): string {
+  const lines: string[] = [];
+  let upperAddress = -1;
+
+  let offset = 0;
+  while (offset < data.length) {
+    const address = baseAddress + offset;
+    const upper = Math.floor(address / 0x10000);
+    if (upper !== upperAddress) {
+      lines.push(formatHexRecord(RECORD_EXTENDED_LINEAR, 0, [(upper >> 8) & 0xFF, upper & 0xFF]));
+      upperAddress = upper;
+    }
+
+    // Records must not cross a 64KB boundary
+    const length = Math.min(bytesPerRecord, data.length - offset, 0x10000 - (address % 0x10000));
+    lines.push(formatHexRecord(RECORD_DATA, address & 0xFFFF, data.subarray(offset, offset + length)));
+    offset += length;
+  }
+
+  lines.push(formatHexRecord(RECORD_EOF, 0, []));
+  return lines.join('\r\n') + '\r\n';
+}
@@ -0,0 +1,124 @@
+// Lamp output channels
+// Every lamp output of the FRM has its own entry in the coding block that sets
+// the connected load, the PWM duty cycle and the bulb monitoring. A load type
+// that does not match the fitted lamp is the usual cause of FRM failures and
+// bulb-out messages after LED retrofits.
+//
+// Entry layout (offsets relative to the entry):
+//   0x00  load type (0 unused, 1 halogen, 2 LED, 3 xenon)
+//   0x01  PWM duty cycle in percent (100 = constant output)
+//   0x02  monitoring flags: bit 0 cold bulb check, bit 1 hot bulb check
+//   0x03  reserved
+
+import type { LampChannelLayout, RegionData } from "./layouts";
+
+export type LampLoadType = 'unused' | 'halogen' | 'led' | 'xenon' | 'unknown';
+
+export interface LampChannel {
+  channel: number;
+  pin: string;
+  function: string;
+  loadType: LampLoadType;
+  loadCode: number;
+  pwmDuty: number;
+  coldMonitoring: boolean;
+  hotMonitoring: boolean;
+  offset: number;
+  issues: string[]; // configuration that does not suit the load
+}
+
+const UNPROGRAMMED = 0xFF;
+
+const LOAD_TYPES: Record<number, LampLoadType> = {
+  0: 'unused',
+  1: 'halogen',
+  2: 'led',
+  3: 'xenon',
+};
+
+export const LOAD_TYPE_LABELS: Record<LampLoadType, string> = {
+  unused: 'Unused',
+  halogen: 'Halogen',
+  led: 'LED',
+  xenon: 'Xenon',
+  unknown: 'Unknown',
+};
+
+const COLD_CHECK = 0x01;
+const HOT_CHECK = 0x02;
+
+function channelIssues(channel: Omit<LampChannel, 'issues'>): string[] {
+  const issues: string[] = [];
+  if (channel.loadType === 'unknown') {
+    issues.push(`Unknown load type code ${channel.loadCode}`);
+  }
+  if (channel.pwmDuty > 100) {
+    issues.push(`PWM duty ${channel.pwmDuty}% is above 100%`);
+  }
+  if (channel.loadType === 'led' && channel.coldMonitoring) {
+    issues.push('Cold bulb check pulses make LEDs glow or flicker; turn cold monitoring off');
+  }
+  if (channel.loadType === 'xenon' && channel.pwmDuty < 100) {
+    issues.push('Xenon ballasts need constant output; set PWM to 100%');
+  }
+  if (channel.loadType === 'unused' && (channel.coldMonitoring || channel.hotMonitoring)) {
+    issues.push('Monitoring is enabled on an unused output and will report a failed bulb');
+  }
+  return issues;
+}
+
+/**
+ * Decodes the output table. Entries that were never programmed are left
+ * out, so an erased table yields an empty list.
+ */
+export function readLampChannels(regions: RegionData, layout: LampChannelLayout): LampChannel[] {
+  const data = regions[layout.region];
+  if (!data) return [];
+
+  const channels: LampChannel[] = [];
+  layout.channels.forEach((definition, index) => {
+    const offset = layout.offset + index * layout.entrySize;
+    if (offset + layout.entrySize > data.length) return;
+
+    const loadCode = data[offset];
+    if (loadCode === UNPROGRAMMED) return;
+
+    const flags = data[offset + 2];
+    const channel = {
+      channel: index + 1,
+      pin: definition.pin,
+      function: definition.function,
+      loadType: LOAD_TYPES[loadCode] ?? 'unknown',
+      loadCode,
+      pwmDuty: data[offset + 1],
+      coldMonitoring: (flags & COLD_CHECK) !== 0,
+      hotMonitoring: (flags & HOT_CHECK) !== 0,
+      offset,
+    };
+    channels.push({ ...channel, issues: channelIssues(channel) });
+  });
+  return channels;
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per channel, ready to open in a spreadsheet
+ */
+export function lampChannelsToCsv(channels: LampChannel[]): string {
+  const header = ['Channel', 'Pin', 'Function', 'Load type', 'PWM %', 'Cold check', 'Hot check', 'Issues'];
+  const rows = channels.map(channel => [
+    channel.channel,
+    channel.pin,
+    channel.function,
+    LOAD_TYPE_LABELS[channel.loadType],
+    channel.pwmDuty,
+    channel.coldMonitoring ? 'on' : 'off',
+    channel.hotMonitoring ? 'on' : 'off',
+    channel.issues.join('; '),
+  ]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+}
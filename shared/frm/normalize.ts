@@ -0,0 +1,120 @@
+// Byte-order normalization
+// Some programmers read the D-Flash through a 16- or 32-bit bus, or map the
+// two 16KB banks the other way round. Every candidate permutation is decoded
+// and scored by how much valid structure it exposes; the best one is kept.
+
+import { countEeeHeaders } from "./dump-slicer";
+import { detectEepromLayout, extractMileage, extractVin, parseDFlash } from "./engine";
+import { swapBytePairs } from "./file-formats";
+
+export type ByteTransform = 'identity' | 'word-swap' | 'bank-swap' | 'reversed-halves';
+
+export const BYTE_TRANSFORM_LABELS: Record<ByteTransform, string> = {
+  'identity': "As read",
+  'word-swap': "Bytes swapped within 16-bit words",
+  'bank-swap': "Banks swapped",
+  'reversed-halves': "16-bit halves swapped within 32-bit words",
+};
+
+// Identity first so it wins ties
+const TRANSFORMS: ByteTransform[] = ['identity', 'word-swap', 'bank-swap', 'reversed-halves'];
+
+export interface NormalizationCandidate {
+  transform: ByteTransform;
+  score: number;
+  eeeHeaders: number;
+  recordPassRate: number; // share of EEE records whose check nibble matches
+  vinFound: boolean;
+}
+
+export interface NormalizationResult {
+  data: Uint8Array;
+  transform: ByteTransform;
+  candidates: NormalizationCandidate[];
+}
+
+function swapBanks(data: Uint8Array): Uint8Array {
+  const half = data.length / 2;
+  const swapped = new Uint8Array(data.length);
+  swapped.set(data.subarray(half), 0);
+  swapped.set(data.subarray(0, half), half);
+  return swapped;
+}
+
+function swapHalfWords(data: Uint8Array): Uint8Array {
+  const swapped = new Uint8Array(data);
+  for (let i = 0; i + 3 < data.length; i += 4) {
+    swapped[i] = data[i + 2];
+    swapped[i + 1] = data[i + 3];
+    swapped[i + 2] = data[i];
+    swapped[i + 3] = data[i + 1];
+  }
+  return swapped;
+}
+
+/**
+ * Applies a permutation. Each one is its own inverse.
+ */
+export function applyTransform(data: Uint8Array, transform: ByteTransform): Uint8Array {
+  switch (transform) {
+    case 'identity':
+      return data;
+    case 'word-swap':
+      return swapBytePairs(data);
+    case 'bank-swap':
+      return swapBanks(data);
+    case 'reversed-halves':
+      return swapHalfWords(data);
+  }
+}
+
+function scoreDFlash(dflash: Uint8Array, transform: ByteTransform): NormalizationCandidate {
+  const parsed = parseDFlash(dflash);
+  const { validRecords, brokenRecords, image } = parsed.replay;
+  const eeeHeaders = countEeeHeaders(dflash);
+  const recordPassRate = validRecords + brokenRecords > 0 ? validRecords / (validRecords + brokenRecords) : 0;
+  const vinFound = extractVin({ dflash, eeprom: image }, parsed.layout) !== undefined;
+
+  return {
+    transform,
+    score: eeeHeaders * 2 + Math.round(recordPassRate * 10) + (vinFound ? 10 : 0),
+    eeeHeaders,
+    recordPassRate: Math.round(recordPassRate * 100) / 100,
+    vinFound,
+  };
+}
+
+function scoreEeprom(eeprom: Uint8Array, transform: ByteTransform): NormalizationCandidate {
+  const layout = detectEepromLayout(eeprom);
+  const vinFound = extractVin({ eeprom }, layout) !== undefined;
+  const mileageFound = extractMileage({ eeprom }, layout) !== undefined;
+
+  return {
+    transform,
+    score: (vinFound ? 10 : 0) + (mileageFound ? 2 : 0),
+    eeeHeaders: 0,
+    recordPassRate: 0,
+    vinFound,
+  };
+}
+
+function pickBest(
+  data: Uint8Array,
+  score: (candidate: Uint8Array, transform: ByteTransform) => NormalizationCandidate,
+): NormalizationResult {
+  const candidates = TRANSFORMS.map(transform => score(applyTransform(data, transform), transform));
+
+  let best = candidates[0];
+  for (const candidate of candidates) {
+    if (candidate.score > best.score) best = candidate;
+  }
+  return { data: applyTransform(data, best.transform), transform: best.transform, candidates };
+}
+
+export function normalizeDFlash(dflash: Uint8Array): NormalizationResult {
+  return pickBest(dflash, scoreDFlash);
+}
+
+export function normalizeEeprom(eeprom: Uint8Array): NormalizationResult {
+  return pickBest(eeprom, scoreEeprom);
+}
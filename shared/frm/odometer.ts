@@ -0,0 +1,102 @@
+// Odometer record ring
+// The FRM keeps the last few odometer readings in a ring of fixed-size slots.
+// Each slot holds the reading (uint32, big-endian), a write counter (uint16)
+// and a check word, so a torn or tampered slot can be told apart from a
+// genuine older reading.
+
+import { orderBySequence } from "./eee";
+import type { OdometerLayout, RegionData } from "./layouts";
+
+export interface OdometerRecord {
+  slot: number;
+  offset: number;
+  mileage: number;
+  counter: number;
+  valid: boolean; // check word matches
+}
+
+export type OdometerStatus = 'consistent' | 'single' | 'conflict' | 'none';
+
+export interface OdometerConsensus {
+  status: OdometerStatus;
+  mileage?: number; // latest reading, only when the ring is consistent
+  latest?: OdometerRecord;
+  agreeing: OdometerRecord[]; // valid records forming a rising sequence up to the latest
+  records: OdometerRecord[]; // every programmed slot, valid or not
+}
+
+const ODOMETER_CHECK_SEED = 0x5AA5;
+const MAX_MILEAGE = 1000000;
+
+export function odometerCheckWord(mileage: number, counter: number): number {
+  return ((mileage >>> 16) ^ (mileage & 0xFFFF) ^ counter ^ ODOMETER_CHECK_SEED) & 0xFFFF;
+}
+
+function readUint(data: Uint8Array, offset: number, length: number): number {
+  let value = 0;
+  for (let i = 0; i < length; i++) {
+    value = value * 256 + data[offset + i];
+  }
+  return value;
+}
+
+export function readOdometerRecords(regions: RegionData, layout: OdometerLayout): OdometerRecord[] {
+  const data = regions[layout.region];
+  if (!data) return [];
+
+  const records: OdometerRecord[] = [];
+  for (let slot = 0; slot < layout.slotCount; slot++) {
+    const offset = layout.offset + slot * layout.slotSize;
+    if (offset + 8 > data.length) break;
+
+    const bytes = data.subarray(offset, offset + 8);
+    if (bytes.every(byte => byte === 0xFF)) continue;
+
+    const mileage = readUint(data, offset, 4);
+    const counter = readUint(data, offset + 4, 2);
+    const check = readUint(data, offset + 6, 2);
+    records.push({
+      slot,
+      offset,
+      mileage,
+      counter,
+      valid: check === odometerCheckWord(mileage, counter) && mileage < MAX_MILEAGE,
+    });
+  }
+  return records;
+}
+
+/**
+ * Cross-checks the ring: ordered by write counter, readings must never go
+ * down. Any drop, or two slots with the same counter and different readings,
+ * is a conflict and no mileage is reported.
+ */
+export function findOdometerConsensus(regions: RegionData, layout: OdometerLayout): OdometerConsensus {
+  const records = readOdometerRecords(regions, layout);
+  const valid = orderBySequence(records.filter(record => record.valid), record => record.counter);
+
+  if (valid.length === 0) {
+    return { status: 'none', agreeing: [], records };
+  }
+
+  const latest = valid[valid.length - 1];
+  const conflict = valid.some((record, index) => {
+    const previous = valid[index - 1];
+    return previous !== undefined && (
+      record.mileage < previous.mileage ||
+      (record.counter === previous.counter && record.mileage !== previous.mileage)
+    );
+  });
+
+  if (conflict) {
+    return { status: 'conflict', latest, agreeing: [], records };
+  }
+
+  return {
+    status: valid.length === 1 ? 'single' : 'consistent',
+    mileage: latest.mileage,
+    latest,
+    agreeing: valid,
+    records,
+  };
+}
@@ -0,0 +1,123 @@
+// Per-sector D-Flash health report
+// One entry per 1KB sector, so technicians can see where a dump is damaged
+// rather than a single figure for the whole image.
+
+import {
+  EEE_HEADER_SIZE,
+  EEE_RECORD_SIZE,
+  EEE_SECTOR_COUNT,
+  EEE_SECTOR_SIZE,
+  parseEeeSector,
+  type EeePartition,
+  type EeeSectorState,
+} from "./eee";
+
+export type SectorStatus = 'healthy' | 'degraded' | 'corrupted' | 'empty' | 'user-data';
+
+export interface SectorHealth {
+  index: number;
+  offset: number;
+  partition: 'eee' | 'user';
+  state: EeeSectorState;
+  validRecords: number;
+  brokenRecords: number;
+  partialWords: number; // record slots whose programming started but never completed
+  entropy: number; // bits per byte, 0..8
+  status: SectorStatus;
+}
+
+export const SECTOR_STATUS_LABELS: Record<SectorStatus, string> = {
+  'healthy': "Healthy",
+  'degraded': "Degraded",
+  'corrupted': "Corrupted",
+  'empty': "Erased / ready",
+  'user-data': "User partition",
+};
+
+/**
+ * Shannon entropy of a byte range. Erased flash is 0, compressed or random
+ * data approaches 8.
+ */
+export function byteEntropy(data: Uint8Array): number {
+  if (data.length === 0) return 0;
+
+  const counts = new Array<number>(256).fill(0);
+  for (let i = 0; i < data.length; i++) {
+    counts[data[i]]++;
+  }
+
+  let entropy = 0;
+  for (const count of counts) {
+    if (count === 0) continue;
+    const p = count / data.length;
+    entropy -= p * Math.log2(p);
+  }
+  return Math.round(entropy * 100) / 100;
+}
+
+/**
+ * Record slots where the programmed flag is still set but other bits have
+ * already been cleared: the write was interrupted (brown-out, reset)
+ */
+function countPartialWords(data: Uint8Array, offset: number): number {
+  let partial = 0;
+  for (let pos = offset + EEE_HEADER_SIZE; pos + EEE_RECORD_SIZE <= offset + EEE_SECTOR_SIZE; pos += EEE_RECORD_SIZE) {
+    const tag = (data[pos] << 8) | data[pos + 1];
+    const value = (data[pos + 2] << 8) | data[pos + 3];
+    if ((tag & 0x8000) !== 0 && (tag !== 0xFFFF || value !== 0xFFFF)) {
+      partial++;
+    }
+  }
+  return partial;
+}
+
+function eeeSectorStatus(state: EeeSectorState, validRecords: number, brokenRecords: number): SectorStatus {
+  switch (state) {
+    case 'erased':
+    case 'ready':
+      return 'empty';
+    case 'invalid':
+      return 'corrupted';
+    case 'active':
+      if (brokenRecords === 0) return 'healthy';
+      return brokenRecords < validRecords ? 'degraded' : 'corrupted';
+  }
+}
+
+export function analyzeSectorHealth(dflash: Uint8Array, partition: EeePartition): SectorHealth[] {
+  const report: SectorHealth[] = [];
+
+  for (let index = 0; index < EEE_SECTOR_COUNT; index++) {
+    const sector = parseEeeSector(dflash, index);
+    const inPartition = index >= partition.firstSector && index < partition.firstSector + partition.sectorCount;
+    const entropy = byteEntropy(dflash.subarray(sector.offset, sector.offset + EEE_SECTOR_SIZE));
+
+    if (!inPartition) {
+      report.push({
+        index,
+        offset: sector.offset,
+        partition: 'user',
+        state: sector.state,
+        validRecords: 0,
+        brokenRecords: 0,
+        partialWords: 0,
+        entropy,
+        status: sector.state === 'erased' ? 'empty' : 'user-data',
+      });
+      continue;
+    }
+
+    report.push({
+      index,
+      offset: sector.offset,
+      partition: 'eee',
+      state: sector.state,
+      validRecords: sector.validRecords,
+      brokenRecords: sector.brokenRecords,
+      partialWords: sector.state === 'active' ? countPartialWords(dflash, sector.offset) : 0,
+      entropy,
+      status: eeeSectorStatus(sector.state, sector.validRecords, sector.brokenRecords),
+    });
+  }
+  return report;
+}
@@ -0,0 +1,167 @@
+// Motorola S-record reader and writer
+// Native dump format of Freescale/NXP tooling for the MC9S12 family.
+// S1/S2/S3 carry data with 16/24/32-bit addresses, S5/S6 record counts and
+// S7/S8/S9 the start address.
+
+import { assembleChunks, emptySpan, extendSpan, type HexParseError } from "./intel-hex";
+
+export interface SRecordImage {
+  data: Uint8Array; // contiguous image starting at baseAddress
+  baseAddress: number;
+  startAddress?: number;
+  header?: string; // S0 content
+  recordCount: number;
+  errors: HexParseError[];
+}
+
+export interface SRecordWriteOptions {
+  baseAddress?: number;
+  header?: string;
+  bytesPerRecord?: number;
+}
+
+// The byte count is one byte: 255 minus the S0 address and checksum
+const MAX_HEADER_LENGTH = 252;
+
+// Address length in bytes per record type
+const ADDRESS_LENGTHS: Record<string, number> = {
+  '0': 2, '1': 2, '2': 3, '3': 4, '5': 2, '6': 3, '7': 4, '8': 3, '9': 2,
+};
+
+/**
+ * Detects S-record text by its record structure
+ */
+export function looksLikeSRecord(data: Uint8Array): boolean {
+  const head = String.fromCharCode(...Array.from(data.subarray(0, 256))).trimStart();
+  return /^S[0-9][0-9A-Fa-f]{6}/.test(head) && /^[S\r\n0-9A-Fa-f\s]+$/.test(head);
+}
+
+function srecordChecksum(bytes: number[]): number {
+  return ~bytes.reduce((total, byte) => total + byte, 0) & 0xFF;
+}
+
+export function parseSRecord(text: string): SRecordImage {
+  const errors: HexParseError[] = [];
+  const chunks: { address: number; bytes: number[] }[] = [];
+  const span = emptySpan();
+  let startAddress: number | undefined;
+  let header: string | undefined;
+  let recordCount = 0;
+  let dataRecords = 0;
+
+  const lines = text.split(/\r?\n/);
+  for (let index = 0; index < lines.length; index++) {
+    const lineNumber = index + 1;
+    const line = lines[index].trim();
+    if (line === '') continue;
+
+    const type = line.charAt(1);
+    const addressLength = ADDRESS_LENGTHS[type];
+    if (line.charAt(0) !== 'S' || addressLength === undefined) {
+      errors.push({ line: lineNumber, message: `Unknown record type "${line.substring(0, 2)}"` });
+      continue;
+    }
+
+    const hex = line.substring(2);
+    if (hex.length % 2 !== 0 || !/^[0-9A-Fa-f]+$/.test(hex)) {
+      errors.push({ line: lineNumber, message: 'Malformed record' });
+      continue;
+    }
+
+    const bytes: number[] = [];
+    for (let i = 0; i < hex.length; i += 2) {
+      bytes.push(parseInt(hex.substring(i, i + 2), 16));
+    }
+
+    const byteCount = bytes[0];
+    if (bytes.length !== byteCount + 1 || byteCount < addressLength + 1) {
+      errors.push({ line: lineNumber, message: `Byte count ${byteCount} does not match record length` });
+      continue;
+    }
+
+    const expected = srecordChecksum(bytes.slice(0, -1));
+    if (expected !== bytes[bytes.length - 1]) {
+      errors.push({
+        line: lineNumber,
+        message: `Checksum mismatch (expected 0x${expected.toString(16).toUpperCase().padStart(2, '0')})`,
+      });
+      continue;
+    }
+
+    const address = bytes.slice(1, 1 + addressLength).reduce((value, byte) => value * 256 + byte, 0);
+    const payload = bytes.slice(1 + addressLength, -1);
+    recordCount++;
+
+    switch (type) {
+      case '0':
+        header = String.fromCharCode(...payload.filter(byte => byte !== 0));
+        break;
+      case '1':
+      case '2':
+      case '3': {
+        const spanError = extendSpan(span, address, payload.length);
+        if (spanError) {
+          // Nothing is assembled from a file this large
+          errors.push({ line: lineNumber, message: spanError });
+          chunks.length = 0;
+          return { ...assembleChunks(chunks), startAddress, header, recordCount, errors };
+        }
+        chunks.push({ address, bytes: payload });
+        dataRecords++;
+        break;
+      }
+      case '5':
+      case '6':
+        if (address !== dataRecords) {
+          errors.push({ line: lineNumber, message: `Record count ${address} does not match ${dataRecords} data records` });
+        }
+        break;
+      default:
+        startAddress = address;
+    }
+  }
+
+  return { ...assembleChunks(chunks), startAddress, header, recordCount, errors };
+}
+
+function formatRecord(type: number, address: number, addressLength: number, payload: ArrayLike<number>): string {
+  const bytes = [addressLength + payload.length + 1];
+  for (let i = addressLength - 1; i >= 0; i--) {
+    bytes.push(Math.floor(address / 256 ** i) & 0xFF);
+  }
+  bytes.push(...Array.from(payload));
+  bytes.push(srecordChecksum(bytes));
+
+  return `S${type}` + bytes.map(byte => byte.toString(16).toUpperCase().padStart(2, '0')).join('');
+}
+
+/**
+ * Emits S19/S28/S37 depending on the highest address in the image
+ */
+export function writeSRecord(data: Uint8Array, options: SRecordWriteOptions = {}): string {
+  const baseAddress = options.baseAddress ?? 0;
+  const bytesPerRecord = options.bytesPerRecord ?? 16;
+  const endAddress = baseAddress + Math.max(data.length - 1, 0);
+
+  const [dataType, terminatorType, addressLength] =
+    endAddress <= 0xFFFF ? [1, 9, 2] : endAddress <= 0xFFFFFF ? [2, 8, 3] : [3, 7, 4];
+
+  const lines: string[] = [];
+  const header = Array.from(options.header ?? '', char => char.charCodeAt(0) & 0xFF).slice(0, MAX_HEADER_LENGTH);
+  lines.push(formatRecord(0, 0, 2, header));
+
+  let dataRecords = 0;
+  for (let offset = 0; offset < data.length; offset += bytesPerRecord) {
+    lines.push(formatRecord(dataType, baseAddress + offset, addressLength, data.subarray(offset, offset + bytesPerRecord)));
+    dataRecords++;
+  }
+
+  if (dataRecords <= 0xFFFF) {
+    lines.push(formatRecord(5, dataRecords, 2, []));
+  } else {
+    lines.push(formatRecord(6, dataRecords, 3, []));
+  }
+  lines.push(formatRecord(terminatorType, baseAddress, addressLength, []));
+
+  return lines.join('\r\n') + '\r\n';
+}
@@ -0,0 +1,65 @@
+// Odometer units
+// The module stores the reading in the unit of its market. The unit is taken
+// from the market coding where present, otherwise inferred from the VIN.
+
+import { getField, readField, type FrmLayout, type RegionData } from "./layouts";
+import { decodeVin } from "./vin-decoder";
+
+export type DistanceUnit = 'km' | 'mi';
+
+// Display preference: 'stored' shows the reading as the module keeps it
+export type DisplayUnit = DistanceUnit | 'stored';
+
+export interface UnitDetection {
+  unit: DistanceUnit;
+  source: 'coding' | 'vin' | 'default';
+  detail: string;
+}
+
+export const DISTANCE_UNIT_LABELS: Record<DistanceUnit, string> = {
+  km: 'km',
+  mi: 'miles',
+};
+
+export const KM_PER_MILE = 1.609344;
+
+// Markets whose clusters count in miles
+const MILE_MARKETS = new Set(['US', 'UK']);
+
+export function detectMileageUnit(regions: RegionData, layout: FrmLayout, vin?: string): UnitDetection {
+  const marketField = getField(layout, 'market');
+  const marketCode = marketField && readField(marketField, regions);
+  const market = typeof marketCode === 'number' ? marketField?.options?.[marketCode] : undefined;
+
+  if (market) {
+    return {
+      unit: MILE_MARKETS.has(market) ? 'mi' : 'km',
+      source: 'coding',
+      detail: `Market coding ${market}`,
+    };
+  }
+
+  const decoded = vin ? decodeVin(vin) : undefined;
+  if (decoded?.northAmerica) {
+    return { unit: 'mi', source: 'vin', detail: `North American VIN (${decoded.wmi})` };
+  }
+  if (decoded) {
+    return { unit: 'km', source: 'vin', detail: `Non-North American VIN (${decoded.wmi})` };
+  }
+
+  // Most FRM dumps come from ECE-market cars
+  return { unit: 'km', source: 'default', detail: 'No market data, assuming ECE' };
+}
+
+export function convertDistance(value: number, from: DistanceUnit, to: DistanceUnit): number {
+  if (from === to) return value;
+  return Math.round(from === 'km' ? value / KM_PER_MILE : value * KM_PER_MILE);
+}
+
+/**
+ * Formats a reading stored in storedUnit according to the display preference
+ */
+export function formatDistance(value: number, storedUnit: DistanceUnit, display: DisplayUnit = 'stored'): string {
+  const unit = display === 'stored' ? storedUnit : display;
+  return `${convertDistance(value, storedUnit, unit).toLocaleString()} ${DISTANCE_UNIT_LABELS[unit]}`;
+}
@@ -0,0 +1,222 @@
+// FRM variant detection
+// Each check contributes weighted evidence for a variant; the candidates are
+// ranked by score so an ambiguous dump can be reviewed and overridden before
+// conversion rather than silently decoded with the default layout.
+
+import { EEE_SECTOR_COUNT, hasEeeHeader, replayEee } from "./eee";
+import { readIdentification } from "./identification";
+import { FRM_LAYOUTS, getField, readField, type FrmLayout, type FrmVariant, type RegionData } from "./layouts";
+
+export interface VariantEvidence {
+  check: string;
+  detail: string;
+  supports: FrmVariant;
+  weight: number;
+}
+
+export interface VariantCandidate {
+  variant: FrmVariant;
+  score: number;
+  confidence: number; // 0..1, share of the total evidence weight
+}
+
+export interface VariantDetection {
+  variant: FrmVariant | 'FRM3 Unknown';
+  candidates: VariantCandidate[]; // best first
+  evidence: VariantEvidence[];
+  ambiguous?: boolean; // several variants fit equally well; the user has to pick one
+  override?: FrmVariant; // chosen by the user over the detected variant
+}
+
+export interface VariantHints {
+  mcu?: string; // MCU implied by the size of a full-chip image
+}
+
+const VIN_REGEX = /^[A-HJ-NPR-Z0-9]{17}$/;
+
+const LAYOUTS = Object.values(FRM_LAYOUTS);
+
+export function isFrmVariant(value: unknown): value is FrmVariant {
+  return typeof value === 'string' && Object.hasOwn(FRM_LAYOUTS, value);
+}
+
+function checkSignature(dflash: Uint8Array): VariantEvidence[] {
+  const evidence: VariantEvidence[] = [];
+  for (const layout of LAYOUTS) {
+    const field = getField(layout, 'mcuSignature');
+    const signature = field && readField(field, { dflash });
+    if (layout.signature && typeof signature === 'string' && signature.includes(layout.signature)) {
+      evidence.push({ check: 'mcu-signature', detail: `MCU signature "${signature}" in the user partition`, supports: layout.variant, weight: 6 });
+    }
+  }
+  return evidence;
+}
+
+/**
+ * The first sector carrying an EEE header tells the partition split apart:
+ * FRM2 runs the EEE through sector 0, FRM3 keeps one or two user sectors
+ */
+function checkGeometry(dflash: Uint8Array): VariantEvidence[] {
+  const first = Array.from({ length: EEE_SECTOR_COUNT }, (_, index) => index).find(index => hasEeeHeader(dflash, index));
+  if (first === undefined) return [];
+
+  const layout = LAYOUTS.find(item => item.eeePartition.firstSector === first);
+  if (!layout) return [];
+
+  return [{
+    check: 'eee-geometry',
+    detail: `EEE partition starts at sector ${first}`,
+    supports: layout.variant,
+    weight: first === 0 ? 5 : 3,
+  }];
+}
+
+/**
+ * Replays the EEE once per distinct partition, so layouts that keep their
+ * data in the emulated EEPROM can be checked too
+ */
+function regionsFor(dflash: Uint8Array, partitionKey: string, cache: Map<string, RegionData>): RegionData {
+  const cached = cache.get(partitionKey);
+  if (cached) return cached;
+
+  const [firstSector, sectorCount] = partitionKey.split(':').map(Number);
+  const regions = { dflash, eeprom: replayEee(dflash, { firstSector, sectorCount }).image };
+  cache.set(partitionKey, regions);
+  return regions;
+}
+
+function checkIdentification(dflash: Uint8Array, cache: Map<string, RegionData>): VariantEvidence[] {
+  const seen = new Set<string>();
+  const evidence: VariantEvidence[] = [];
+
+  for (const layout of LAYOUTS) {
+    const { region, offset } = layout.identification;
+    const partitionKey = `${layout.eeePartition.firstSector}:${layout.eeePartition.sectorCount}`;
+    const key = region === 'dflash' ? `dflash:${offset}` : `${partitionKey}:${offset}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const regions = region === 'dflash' ? { dflash } : regionsFor(dflash, partitionKey, cache);
+    const identification = readIdentification(regions, layout.identification);
+    if (!identification?.generation) continue;
+
+    evidence.push(identification.generationSource === 'part-number'
+      ? { check: 'part-number', detail: `Part number ${identification.partNumber} is a known ${identification.generation}`, supports: identification.generation, weight: 4 }
+      : { check: 'hardware-version', detail: `Hardware version ${identification.hardwareVersion} falls in the ${identification.generation} range`, supports: identification.generation, weight: 2 });
+  }
+  return evidence;
+}
+
+function checkVinSlot(dflash: Uint8Array, cache: Map<string, RegionData>): VariantEvidence[] {
+  const evidence: VariantEvidence[] = [];
+  for (const layout of LAYOUTS) {
+    const field = getField(layout, 'vin');
+    const partitionKey = `${layout.eeePartition.firstSector}:${layout.eeePartition.sectorCount}`;
+    const vin = field && readField(field, regionsFor(dflash, partitionKey, cache));
+    if (typeof vin === 'string' && VIN_REGEX.test(vin)) {
+      evidence.push({ check: 'vin-slot', detail: `VIN decodes at the ${layout.label} VIN slot`, supports: layout.variant, weight: 1 });
+    }
+  }
+  return evidence;
+}
+
+function checkChipImage(hints: VariantHints): VariantEvidence[] {
+  const layout = hints.mcu ? LAYOUTS.find(item => item.mcu === hints.mcu) : undefined;
+  if (!layout) return [];
+
+  return [{ check: 'chip-image', detail: `Full-chip image size matches the ${layout.mcu}`, supports: layout.variant, weight: 5 }];
+}
+
+/**
+ * EEPROM images carry no partition geometry or MCU signature; only the
+ * identification block and the VIN slots tell the variants apart
+ */
+function checkEepromIdentification(eeprom: Uint8Array): VariantEvidence[] {
+  const seen = new Set<number>();
+  const evidence: VariantEvidence[] = [];
+
+  for (const layout of LAYOUTS) {
+    const { region, offset } = layout.identification;
+    if (region !== 'eeprom' || seen.has(offset)) continue;
+    seen.add(offset);
+
+    const identification = readIdentification({ eeprom }, layout.identification);
+    if (!identification?.generation) continue;
+
+    evidence.push(identification.generationSource === 'part-number'
+      ? { check: 'part-number', detail: `Part number ${identification.partNumber} is a known ${identification.generation}`, supports: identification.generation, weight: 4 }
+      : { check: 'hardware-version', detail: `Hardware version ${identification.hardwareVersion} falls in the ${identification.generation} range`, supports: identification.generation, weight: 2 });
+  }
+  return evidence;
+}
+
+function checkEepromVinSlot(eeprom: Uint8Array): VariantEvidence[] {
+  const evidence: VariantEvidence[] = [];
+  for (const layout of LAYOUTS) {
+    const field = getField(layout, 'vin');
+    const vin = field && field.region === 'eeprom' && layout.eepromSize === eeprom.length && readField(field, { eeprom });
+    if (typeof vin === 'string' && VIN_REGEX.test(vin)) {
+      evidence.push({ check: 'vin-slot', detail: `VIN decodes at the ${layout.label} VIN slot`, supports: layout.variant, weight: 1 });
+    }
+  }
+  return evidence;
+}
+
+/**
+ * Everything that decides how an EEPROM image is decoded and rebuilt
+ */
+function eepromDefinition(layout: FrmLayout): string {
+  return JSON.stringify({
+    size: layout.eepromSize,
+    fields: layout.fields.filter(field => field.region === 'eeprom'),
+    odometer: layout.odometer,
+    vehicleOrder: layout.vehicleOrder,
+    lampChannels: layout.lampChannels,
+    checksumBlocks: layout.checksumBlocks.filter(block => block.region === 'eeprom'),
+  });
+}
+
+function rankVariants(evidence: VariantEvidence[]): VariantDetection {
+  const total = evidence.reduce((sum, item) => sum + item.weight, 0);
+  const candidates: VariantCandidate[] = LAYOUTS
+    .map(layout => {
+      const score = evidence.filter(item => item.supports === layout.variant).reduce((sum, item) => sum + item.weight, 0);
+      return { variant: layout.variant, score, confidence: total > 0 ? Math.round((score / total) * 100) / 100 : 0 };
+    })
+    .sort((a, b) => b.score - a.score);
+
+  // A tie at the top is not a decision; fall back to the default FRM3 layout
+  const [best, runnerUp] = candidates;
+  const decided = best.score > 0 && best.score > runnerUp.score;
+  return {
+    variant: decided ? best.variant : 'FRM3 Unknown',
+    candidates,
+    evidence,
+    ambiguous: best.score > 0 && best.score === runnerUp.score,
+  };
+}
+
+export function detectVariant(dflash: Uint8Array, hints: VariantHints = {}): VariantDetection {
+  const replays = new Map<string, RegionData>();
+  return rankVariants([
+    ...checkSignature(dflash),
+    ...checkGeometry(dflash),
+    ...checkIdentification(dflash, replays),
+    ...checkVinSlot(dflash, replays),
+    ...checkChipImage(hints),
+  ]);
+}
+
+export function detectEepromVariant(eeprom: Uint8Array): VariantDetection {
+  const detection = rankVariants([
+    ...checkEepromIdentification(eeprom),
+    ...checkEepromVinSlot(eeprom),
+  ]);
+
+  // Variants sharing one EEPROM layout handle the image the same way, so a
+  // tie between them leaves nothing to choose
+  const [best] = detection.candidates;
+  const tied = detection.candidates.filter(candidate => candidate.score === best.score);
+  const definitions = new Set(tied.map(candidate => eepromDefinition(FRM_LAYOUTS[candidate.variant])));
+  return detection.ambiguous && definitions.size === 1 ? { ...detection, ambiguous: false } : detection;
+}
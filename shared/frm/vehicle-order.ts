@@ -0,0 +1,129 @@
+// Vehicle order (FA / VO)
+// The FRM keeps a copy of the car's vehicle order: type key, build date and
+// the list of SA option codes it was coded against. The block starts with an
+// "FA" marker, so modules that never received one simply have no order.
+//
+// Block layout (offsets relative to the block):
+//   0x00  "FA" marker
+//   0x02  SA code count (uint8)
+//   0x04  type key, 4 ASCII characters (same as VIN positions 4-7)
+//   0x08  build date, 4 ASCII digits MMYY
+//   0x10  SA codes, 3 ASCII characters each
+//   last two bytes: block CRC16, see checksums.ts
+
+import type { RegionData, VehicleOrderLayout } from "./layouts";
+import { lookupChassis } from "./vin-decoder";
+
+export interface SaOption {
+  code: string;
+  description?: string;
+  codingField?: string; // coding field the option switches on, if any
+}
+
+export interface VehicleOrder {
+  offset: number;
+  typeKey: string;
+  chassisCode?: string;
+  model?: string;
+  buildDate?: { year: number; month: number };
+  options: SaOption[];
+}
+
+interface SaDefinition {
+  description: string;
+  codingField?: string;
+}
+
+const FA_MARKER = 'FA';
+const SA_LIST_OFFSET = 0x10;
+const SA_CODE_LENGTH = 3;
+const BLOCK_CRC_LENGTH = 2;
+const SA_CODE_PATTERN = /^[0-9][0-9A-Z]{2}$/;
+const TYPE_KEY_PATTERN = /^[A-Z0-9]{4}$/;
+
+// Options relevant to footwell module coding
+const SA_CATALOGUE: Record<string, SaDefinition> = {
+  '205': { description: 'Automatic transmission' },
+  '2TB': { description: 'Sport automatic transmission' },
+  '302': { description: 'Alarm system' },
+  '322': { description: 'Comfort access', codingField: 'comfortAccess' },
+  '430': { description: 'Auto-dimming mirrors' },
+  '508': { description: 'Park Distance Control' },
+  '521': { description: 'Rain sensor', codingField: 'autoWipers' },
+  '522': { description: 'Xenon headlights', codingField: 'xenonHeadlights' },
+  '524': { description: 'Adaptive headlights' },
+  '534': { description: 'Automatic air conditioning' },
+  '563': { description: 'Light package' },
+  '5A1': { description: 'LED fog lights' },
+  '5AC': { description: 'High-beam assistant' },
+  '609': { description: 'Navigation system Professional' },
+  '760': { description: 'High-gloss Shadow Line' },
+};
+
+function readAscii(data: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...Array.from(data.subarray(offset, offset + length)));
+}
+
+function parseBuildDate(text: string): { year: number; month: number } | undefined {
+  if (!/^\d{4}$/.test(text)) return undefined;
+  const month = Number(text.substring(0, 2));
+  if (month < 1 || month > 12) return undefined;
+  return { year: 2000 + Number(text.substring(2)), month };
+}
+
+export function describeSaCode(code: string): SaOption {
+  const definition = SA_CATALOGUE[code];
+  return { code, description: definition?.description, codingField: definition?.codingField };
+}
+
+/**
+ * Decodes the vehicle order block. A missing marker or an implausible type
+ * key yields undefined; SA slots that do not hold a code are skipped.
+ */
+export function readVehicleOrder(regions: RegionData, layout: VehicleOrderLayout): VehicleOrder | undefined {
+  const data = regions[layout.region];
+  if (!data || layout.offset + layout.length > data.length) return undefined;
+  if (readAscii(data, layout.offset, 2) !== FA_MARKER) return undefined;
+
+  const typeKey = readAscii(data, layout.offset + 4, 4);
+  if (!TYPE_KEY_PATTERN.test(typeKey)) return undefined;
+
+  const maxCodes = Math.floor((layout.length - SA_LIST_OFFSET - BLOCK_CRC_LENGTH) / SA_CODE_LENGTH);
+  const count = Math.min(data[layout.offset + 2], maxCodes);
+  const options: SaOption[] = [];
+  for (let i = 0; i < count; i++) {
+    const code = readAscii(data, layout.offset + SA_LIST_OFFSET + i * SA_CODE_LENGTH, SA_CODE_LENGTH);
+    if (SA_CODE_PATTERN.test(code)) {
+      options.push(describeSaCode(code));
+    }
+  }
+
+  const chassis = lookupChassis(typeKey);
+  return {
+    offset: layout.offset,
+    typeKey,
+    chassisCode: chassis?.chassisCode,
+    model: chassis?.model,
+    buildDate: parseBuildDate(readAscii(data, layout.offset + 8, 4)),
+    options,
+  };
+}
+
+/**
+ * Coding fields whose value disagrees with the ordered options: an SA that
+ * switches a feature on with the feature coded off, or the reverse
+ */
+export function findCodingMismatches(order: VehicleOrder, configuration: Record<string, unknown>): { field: string; code: string; ordered: boolean }[] {
+  const ordered = new Set(order.options.map(option => option.code));
+  const mismatches: { field: string; code: string; ordered: boolean }[] = [];
+
+  for (const [code, definition] of Object.entries(SA_CATALOGUE)) {
+    if (!definition.codingField) continue;
+    const coded = configuration[definition.codingField];
+    if (typeof coded !== 'boolean') continue;
+    if (coded !== ordered.has(code)) {
+      mismatches.push({ field: definition.codingField, code, ordered: ordered.has(code) });
+    }
+  }
+  return mismatches;
+}
@@ -0,0 +1,211 @@
+// VIN decoding (ISO 3779)
+// WMI (1-3) identifies the manufacturer, VDS (4-9) the model with the check
+// digit at position 9, VIS (10-17) model year, plant and serial number.
+
+export interface VinCheckDigit {
+  expected: string;
+  actual: string;
+  valid: boolean;
+  required: boolean; // mandatory for North American market VINs
+}
+
+export interface DecodedVin {
+  vin: string;
+  wmi: string;
+  vds: string;
+  vis: string;
+  manufacturer?: string;
+  northAmerica: boolean;
+  checkDigit: VinCheckDigit;
+  modelYear?: number;
+  modelYearCandidates: number[]; // both readings of the 30-year cycle
+  typeCode: string; // BMW type code, VDS positions 4-7
+  chassisCode?: string;
+  model?: string;
+  plant?: string;
+  serial: string;
+}
+
+const VIN_PATTERN = /^[A-HJ-NPR-Z0-9]{17}$/;
+
+const MANUFACTURER_BY_WMI: Record<string, string> = {
+  'WBA': 'BMW AG',
+  'WBS': 'BMW M GmbH',
+  'WBX': 'BMW AG (SAV)',
+  'WBY': 'BMW AG (i)',
+  '4US': 'BMW Manufacturing Co. (US)',
+  '5UM': 'BMW M (US)',
+  '5UX': 'BMW Manufacturing Co. (SAV)',
+  '5YM': 'BMW M (US SAV)',
+  'WMW': 'MINI',
+  'WMZ': 'MINI (Magna Steyr)',
+  'SCA': 'Rolls-Royce Motor Cars',
+};
+
+export interface ChassisInfo {
+  chassisCode: string;
+  model: string;
+}
+
+// FRM-equipped chassis keyed by the first two characters of the type code
+const CHASSIS_BY_TYPE_PREFIX: Record<string, ChassisInfo> = {
+  'UE': { chassisCode: 'E81', model: 'BMW 1 Series 3-door' },
+  'UF': { chassisCode: 'E87', model: 'BMW 1 Series 5-door' },
+  'UG': { chassisCode: 'E87', model: 'BMW 1 Series 5-door' },
+  'UH': { chassisCode: 'E87', model: 'BMW 1 Series 5-door' },
+  'UC': { chassisCode: 'E82', model: 'BMW 1 Series Coupe' },
+  'UP': { chassisCode: 'E82', model: 'BMW 1 Series Coupe' },
+  'UL': { chassisCode: 'E88', model: 'BMW 1 Series Convertible' },
+  'UM': { chassisCode: 'E88', model: 'BMW 1 Series Convertible' },
+  'PF': { chassisCode: 'E90', model: 'BMW 3 Series Sedan' },
+  'PG': { chassisCode: 'E90', model: 'BMW 3 Series Sedan' },
+  'PH': { chassisCode: 'E90', model: 'BMW 3 Series Sedan' },
+  'VA': { chassisCode: 'E90', model: 'BMW 3 Series Sedan' },
+  'VB': { chassisCode: 'E90', model: 'BMW 3 Series Sedan' },
+  'VC': { chassisCode: 'E90', model: 'BMW 3 Series Sedan' },
+  'UR': { chassisCode: 'E91', model: 'BMW 3 Series Touring' },
+  'US': { chassisCode: 'E91', model: 'BMW 3 Series Touring' },
+  'UT': { chassisCode: 'E91', model: 'BMW 3 Series Touring' },
+  'WB': { chassisCode: 'E92', model: 'BMW 3 Series Coupe' },
+  'WC': { chassisCode: 'E92', model: 'BMW 3 Series Coupe' },
+  'KG': { chassisCode: 'E92', model: 'BMW 3 Series Coupe' },
+  'WL': { chassisCode: 'E93', model: 'BMW 3 Series Convertible' },
+  'WM': { chassisCode: 'E93', model: 'BMW 3 Series Convertible' },
+  'NA': { chassisCode: 'E60', model: 'BMW 5 Series Sedan' },
+  'NB': { chassisCode: 'E60', model: 'BMW 5 Series Sedan' },
+  'NE': { chassisCode: 'E60', model: 'BMW 5 Series Sedan' },
+  'NU': { chassisCode: 'E60', model: 'BMW 5 Series Sedan' },
+  'NL': { chassisCode: 'E61', model: 'BMW 5 Series Touring' },
+  'NN': { chassisCode: 'E61', model: 'BMW 5 Series Touring' },
+  'EH': { chassisCode: 'E63', model: 'BMW 6 Series Coupe' },
+  'EK': { chassisCode: 'E64', model: 'BMW 6 Series Convertible' },
+  'PA': { chassisCode: 'E83', model: 'BMW X3' },
+  'PC': { chassisCode: 'E83', model: 'BMW X3' },
+  'VL': { chassisCode: 'E84', model: 'BMW X1' },
+  'VM': { chassisCode: 'E84', model: 'BMW X1' },
+  'FE': { chassisCode: 'E70', model: 'BMW X5' },
+  'FF': { chassisCode: 'E70', model: 'BMW X5' },
+  'FG': { chassisCode: 'E71', model: 'BMW X6' },
+  'FH': { chassisCode: 'E71', model: 'BMW X6' },
+  'LM': { chassisCode: 'E89', model: 'BMW Z4 Roadster' },
+  'ME': { chassisCode: 'R56', model: 'MINI Hatch' },
+  'MF': { chassisCode: 'R56', model: 'MINI Hatch' },
+  'SU': { chassisCode: 'R56', model: 'MINI Hatch' },
+  'MM': { chassisCode: 'R55', model: 'MINI Clubman' },
+  'ZF': { chassisCode: 'R55', model: 'MINI Clubman' },
+  'MR': { chassisCode: 'R57', model: 'MINI Convertible' },
+  'ZB': { chassisCode: 'R60', model: 'MINI Countryman' },
+  'ZC': { chassisCode: 'R60', model: 'MINI Countryman' },
+};
+
+// BMW assembly plant letters (VIN position 11)
+const PLANT_BY_CODE: Record<string, string> = {
+  'A': 'Munich',
+  'B': 'Dingolfing',
+  'C': 'Regensburg',
+  'D': 'Dingolfing',
+  'E': 'Regensburg',
+  'F': 'Munich',
+  'G': 'Graz (Magna Steyr)',
+  'J': 'Oxford',
+  'K': 'Regensburg',
+  'L': 'Spartanburg',
+  'N': 'Rosslyn',
+  'P': 'Leipzig',
+  'T': 'Oxford',
+  'U': 'Goodwood',
+  'V': 'Munich',
+  'W': 'Regensburg',
+  'X': 'Chennai',
+  'Y': 'Rosslyn',
+};
+
+// Model year codes for 1980-2009; the same sequence repeats from 2010
+const MODEL_YEAR_CODES = 'ABCDEFGHJKLMNPRSTVWXY123456789';
+const MODEL_YEAR_BASE = 1980;
+const MODEL_YEAR_CYCLE = 30;
+
+const CHECK_DIGIT_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+const TRANSLITERATION = '0123456789.ABCDEFGH..JKLMN.P.R..STUVWXYZ';
+
+/**
+ * Chassis and model for a BMW type key (VIN positions 4-7, also carried in
+ * the vehicle order)
+ */
+export function lookupChassis(typeCode: string): ChassisInfo | undefined {
+  return CHASSIS_BY_TYPE_PREFIX[typeCode.substring(0, 2)];
+}
+
+export function isValidVinFormat(vin: string): boolean {
+  return VIN_PATTERN.test(vin);
+}
+
+function transliterate(char: string): number {
+  if (char >= '0' && char <= '9') return Number(char);
+  // Letters map to 1-9 in three runs: A-H/J-R/S-Z
+  return TRANSLITERATION.indexOf(char) % 10;
+}
+
+/**
+ * ISO 3779 / 49 CFR 565 check digit for VIN position 9
+ */
+export function computeCheckDigit(vin: string): string {
+  let sum = 0;
+  for (let i = 0; i < 17; i++) {
+    sum += transliterate(vin.charAt(i)) * CHECK_DIGIT_WEIGHTS[i];
+  }
+  const remainder = sum % 11;
+  return remainder === 10 ? 'X' : String(remainder);
+}
+
+function isNorthAmerican(wmi: string): boolean {
+  return wmi.charAt(0) >= '1' && wmi.charAt(0) <= '5';
+}
+
+/**
+ * Resolves the position-10 year code. North American VINs carry a letter
+ * at position 7 from 2010 on; elsewhere the latest year not in the future wins.
+ */
+export function decodeModelYear(vin: string, currentYear = new Date().getFullYear()): { year?: number; candidates: number[] } {
+  const index = MODEL_YEAR_CODES.indexOf(vin.charAt(9));
+  if (index < 0) return { candidates: [] };
+
+  const candidates = [MODEL_YEAR_BASE + index, MODEL_YEAR_BASE + index + MODEL_YEAR_CYCLE];
+
+  if (isNorthAmerican(vin.substring(0, 3))) {
+    const position7IsLetter = /[A-Z]/.test(vin.charAt(6));
+    return { year: position7IsLetter ? candidates[1] : candidates[0], candidates };
+  }
+
+  const plausible = candidates.filter(year => year <= currentYear + 1);
+  return { year: plausible[plausible.length - 1], candidates };
+}
+
+export function decodeVin(vin: string): DecodedVin | undefined {
+  if (!isValidVinFormat(vin)) return undefined;
+
+  const wmi = vin.substring(0, 3);
+  const northAmerica = isNorthAmerican(wmi);
+  const expected = computeCheckDigit(vin);
+  const actual = vin.charAt(8);
+  const typeCode = vin.substring(3, 7);
+  const chassis = lookupChassis(typeCode);
+  const { year, candidates } = decodeModelYear(vin);
+
+  return {
+    vin,
+    wmi,
+    vds: vin.substring(3, 9),
+    vis: vin.substring(9),
+    manufacturer: MANUFACTURER_BY_WMI[wmi],
+    northAmerica,
+    checkDigit: { expected, actual, valid: expected === actual, required: northAmerica },
+    modelYear: year,
+    modelYearCandidates: candidates,
+    typeCode,
+    chassisCode: chassis?.chassisCode,
+    model: chassis?.model,
+    plant: MANUFACTURER_BY_WMI[wmi] ? PLANT_BY_CODE[vin.charAt(10)] : undefined,
+    serial: vin.substring(11),
+  };
+}
@@ -16,10 +16,15 @@ export const frmRepairs = pgTable("frm_repairs", {
   frmType: text("frm_type").notNull(),
   vin: text("vin"),
   mileage: integer("mileage"),
+  mileageUnit: text("mileage_unit"), // km | mi, as stored by the module
+  inputKind: text("input_kind", { enum: ["dflash", "eeprom"] }).notNull().default("dflash"), // full-chip images are stored as their D-Flash slice
   repairStatus: text("repair_status").notNull().default("pending"),
   analysisData: text("analysis_data"),
-  originalData: bytea("original_data"),
+  originalData: bytea("original_data"), // 32KB D-Flash the conversion runs on
+  sourceData: bytea("source_data"), // uploaded file as received
   repairedData: bytea("repaired_data"),
+  encodedData: bytea("encoded_data"), // D-Flash rebuilt from the EEPROM
+  codingOverrides: text("coding_overrides"), // JSON of coding values set by the technician
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
 });
 
@@ -39,17 +44,193 @@ export type InsertFrmRepair = z.infer<typeof insertFrmRepairSchema>;
 export type FrmRepair = typeof frmRepairs.$inferSelect;
 
 export const frmAnalysisSchema = z.object({
-  corruptionLevel: z.number().min(0).max(100),
+  integrity: z.object({
+    recoverableDataRatio: z.number().min(0).max(1),
+    structuralValidity: z.number().min(0).max(1).nullable(),
+    recordPassRate: z.number().min(0).max(1).nullable(),
+    extractionConfidence: z.number().min(0).max(1),
+  }),
   recoverableSectors: z.number(),
   totalSectors: z.number(),
   vehicleData: z.object({
     vin: z.string().optional(),
     model: z.string().optional(),
     year: z.number().optional(),
+    chassisCode: z.string().optional(),
     mileage: z.number().optional(),
     frmType: z.string(),
   }),
-  configurationData: z.record(z.string(), z.any()),
+  coding: z.array(z.object({
+    id: z.string(),
+    label: z.string(),
+    category: z.enum(["general", "lamps", "monitoring", "trailer", "comfort"]),
+    type: z.enum(["boolean", "number", "enum"]),
+    value: z.union([z.boolean(), z.number()]),
+    display: z.string(),
+    unit: z.string().optional(),
+    range: z.object({
+      min: z.number(),
+      max: z.number(),
+    }).optional(),
+    options: z.array(z.object({
+      value: z.number(),
+      label: z.string(),
+    })).optional(),
+    valid: z.boolean(),
+    region: z.enum(["eeprom", "dflash"]),
+    offset: z.number(),
+    bit: z.number().optional(),
+  })),
+  provenance: z.record(z.string(), z.object({
+    sources: z.array(z.object({
+      region: z.enum(["eeprom", "dflash"]),
+      offset: z.number(),
+      length: z.number(),
+    })),
+    copies: z.number(),
+    decoder: z.string(),
+    confidence: z.number().min(0).max(1),
+  })).optional(),
+  source: z.object({
+    format: z.string(),
+    fileSize: z.number(),
+    imageKind: z.string(),
+    sliceMethod: z.string(),
+    dflashOffset: z.number(),
+    mcu: z.string().optional(),
+  }).optional(),
+  classification: z.object({
+    kind: z.enum(["dflash", "eeprom", "pflash", "unknown"]),
+    confidence: z.number(),
+    evidence: z.array(z.object({
+      check: z.string(),
+      detail: z.string(),
+      supports: z.string(),
+      weight: z.number(),
+    })),
+  }).optional(),
+  mileageUnit: z.object({
+    unit: z.enum(["km", "mi"]),
+    source: z.enum(["coding", "vin", "default"]),
+    detail: z.string(),
+  }).optional(),
+  odometer: z.object({
+    status: z.enum(["consistent", "single", "conflict", "none"]),
+    mileage: z.number().optional(),
+    records: z.array(z.object({
+      slot: z.number(),
+      offset: z.number(),
+      mileage: z.number(),
+      counter: z.number(),
+      valid: z.boolean(),
+    })),
+  }).optional(),
+  vehicleOrder: z.object({
+    offset: z.number(),
+    typeKey: z.string(),
+    chassisCode: z.string().optional(),
+    model: z.string().optional(),
+    buildDate: z.object({
+      year: z.number(),
+      month: z.number(),
+    }).optional(),
+    options: z.array(z.object({
+      code: z.string(),
+      description: z.string().optional(),
+      codingField: z.string().optional(),
+    })),
+  }).optional(),
+  identification: z.object({
+    region: z.enum(["eeprom", "dflash", "pflash"]),
+    offset: z.number(),
+    partNumber: z.string(),
+    hardwareVersion: z.number(),
+    softwareVersion: z.string(),
+    codingIndex: z.number(),
+    diagnosticAddress: z.number(),
+    supplierId: z.number(),
+    supplier: z.string().optional(),
+    generation: z.enum(["FRM2", "FRM3 XEQ384", "FRM3 XET512"]).optional(),
+    generationSource: z.enum(["part-number", "hardware-version"]).optional(),
+    description: z.string().optional(),
+  }).optional(),
+  lampChannels: z.array(z.object({
+    channel: z.number(),
+    pin: z.string(),
+    function: z.string(),
+    loadType: z.enum(["unused", "halogen", "led", "xenon", "unknown"]),
+    loadCode: z.number(),
+    pwmDuty: z.number(),
+    coldMonitoring: z.boolean(),
+    hotMonitoring: z.boolean(),
+    offset: z.number(),
+    issues: z.array(z.string()),
+  })).optional(),
+  blockChecksums: z.array(z.object({
+    id: z.string(),
+    label: z.string(),
+    start: z.number(),
+    end: z.number(),
+    algorithm: z.enum(["crc16-ccitt", "sum8"]).optional(),
+    checksumOffset: z.number().optional(),
+    stored: z.number().optional(),
+    computed: z.number().optional(),
+    markerValid: z.boolean().optional(),
+    status: z.enum(["valid", "invalid", "erased", "unchecked"]),
+  })).optional(),
+  eepromValidation: z.object({
+    passed: z.boolean(),
+    checks: z.array(z.object({
+      id: z.string(),
+      category: z.enum(["image", "checksum", "vin", "coding", "erased"]),
+      label: z.string(),
+      status: z.enum(["pass", "warn", "fail"]),
+      detail: z.string(),
+      blockId: z.string().optional(),
+      repairs: z.array(z.enum(["restore-from-copy", "recompute-checksum"])).optional(),
+    })),
+  }).optional(),
+  warnings: z.array(z.object({
+    code: z.string(),
+    message: z.string(),
+  })).optional(),
+  sectorHealth: z.array(z.object({
+    index: z.number(),
+    offset: z.number(),
+    partition: z.enum(["eee", "user"]),
+    state: z.enum(["active", "erased", "ready", "invalid"]),
+    validRecords: z.number(),
+    brokenRecords: z.number(),
+    partialWords: z.number(),
+    entropy: z.number(),
+    status: z.enum(["healthy", "degraded", "corrupted", "empty", "user-data"]),
+  })).optional(),
+  variantDetection: z.object({
+    variant: z.enum(["FRM2", "FRM3 XEQ384", "FRM3 XET512", "FRM3 Unknown"]),
+    candidates: z.array(z.object({
+      variant: z.enum(["FRM2", "FRM3 XEQ384", "FRM3 XET512"]),
+      score: z.number(),
+      confidence: z.number().min(0).max(1),
+    })),
+    evidence: z.array(z.object({
+      check: z.string(),
+      detail: z.string(),
+      supports: z.enum(["FRM2", "FRM3 XEQ384", "FRM3 XET512"]),
+      weight: z.number(),
+    })),
+    ambiguous: z.boolean().optional(),
+    override: z.enum(["FRM2", "FRM3 XEQ384", "FRM3 XET512"]).optional(),
+  }).optional(),
+  normalization: z.object({
+    transform: z.enum(["identity", "word-swap", "bank-swap", "reversed-halves"]),
+    candidates: z.array(z.object({
+      transform: z.string(),
+      score: z.number(),
+      eeeHeaders: z.number(),
+      recordPassRate: z.number(),
+      vinFound: z.boolean(),
+    })),
+  }).optional(),
 });
 
 export type FrmAnalysis = z.infer<typeof frmAnalysisSchema>;